@@ -1,33 +1,585 @@
 import * as fs from "fs";
+import * as os from "os";
 import * as path from "path";
-import ejs from "ejs";
-import { ContentIndex, DocMeta, BuildOptions } from "./content/types";
-import { buildContentIndex } from "./content/loader";
-import { generateSidebar } from "./content/sidebar";
+import {
+  ContentIndex,
+  BuildOptions,
+  Diagnostic,
+  DocMeta,
+  SiteConfig,
+} from "./content/types";
+import { buildContentIndex, LoaderOptions } from "./content/loader";
+import {
+  ResolvedSidebar,
+  resolveSidebars,
+  selectSidebar,
+} from "./content/sidebar";
+import {
+  getNavigationDiagnostics,
+  getPageNavigation,
+  PageNavigation,
+} from "./content/navigation";
+import { buildSearchIndex, SearchEntry } from "./content/search";
 import {
   checkInternalLinks,
   checkExternalLinks,
+  LinkCheckResult,
   printLinkCheckSummary,
 } from "./content/links";
-import { loadConfig } from "./config";
+import { findSchemaFile, loadMarkdocSchema } from "./content/schema";
+import {
+  collectDiagnostics,
+  countErrors,
+  printDiagnostics,
+} from "./content/diagnostics";
+import { findConfigFile, loadConfig } from "./config";
+import {
+  BuildCache,
+  CachedPage,
+  hashContent,
+  hashDirectory,
+  loadBuildCache,
+  saveBuildCache,
+} from "./cache";
+import { RenderPool } from "./render-pool";
+import {
+  prefixLinks,
+  prefixNavigation,
+  ResolvedVersion,
+  resolveVersions,
+} from "./versions";
+import { ResolvedLocale, resolveLocales } from "./i18n";
+import { resolveTheme, Theme } from "./theme";
+import {
+  PageContext,
+  renderNotFoundPage,
+  renderPage,
+  renderSidebar,
+  SwitcherLink,
+} from "./render";
+import { getBasePath, getSiteUrl } from "./urls";
+import {
+  escapeXml,
+  getLastModified,
+  renderRobotsTxt,
+  renderSitemap,
+} from "./sitemap";
+import {
+  getSocialCardData,
+  getSocialCardRoute,
+  hasSocialCards,
+  renderSocialCard,
+  renderSocialCardSvg,
+  SocialCardData,
+} from "./social-cards";
+import {
+  absolutizeLinks,
+  Feed,
+  getConfigFeeds,
+  getFeedPages,
+  renderAtomFeed,
+  renderRssFeed,
+} from "./feeds";
+import { getPageDescription } from "./metadata";
+import {
+  getAliasRedirects,
+  getConfigRedirects,
+  isExternal,
+  Redirect,
+  resolveRedirects,
+} from "./redirects";
 
 export async function buildStaticSite(options: BuildOptions): Promise<void> {
-  const { dir, out, strict = true } = options;
+  const {
+    dir,
+    out,
+    strict = true,
+    cache: useCache = true,
+    concurrency = os.availableParallelism(),
+  } = options;
+
+  // A single worker would only add overhead, so render on the main thread
+  const pool = concurrency > 1 ? new RenderPool(concurrency, dir) : undefined;
+  try {
+    await buildSite(dir, out, strict, useCache, pool);
+  } finally {
+    await pool?.close();
+  }
+}
+
+// Pages that are loaded, link-checked and rendered together: the whole site,
+// or one version and locale of it
+export interface SiteSection {
+  version?: ResolvedVersion;
+  locale?: ResolvedLocale;
+  // Prepended to the section's routes in the output, e.g. "/v2/de"
+  prefix: string;
+  index: ContentIndex;
+  sidebars: ResolvedSidebar[];
+  // Routes that show the default locale's page for lack of a translation
+  fallbacks: Set<string>;
+  // Aliases of the section's pages and the configured redirects, by route
+  // within the section
+  redirects: Map<string, string>;
+}
+
+// Loads the content of every version and locale declared in the config, or
+// of the docs directory itself for a site without either
+export async function loadSiteSections(
+  dir: string,
+  config: SiteConfig,
+  options: LoaderOptions,
+  // Versions resolved earlier, so callers that reload can skip snapshotting
+  // git refs again
+  resolved?: ReturnType<typeof resolveVersions>
+): Promise<{
+  sections: SiteSection[];
+  redirects: Map<string, string>;
+  diagnostics: Diagnostic[];
+}> {
+  const configFile = findConfigFile(dir) || "";
+  const { versions, diagnostics: versionDiagnostics } =
+    resolved || resolveVersions(config, dir, configFile);
+  const diagnostics = [...versionDiagnostics];
+  const { locales, diagnostics: localeDiagnostics } = resolveLocales(
+    config,
+    configFile
+  );
+  diagnostics.push(...localeDiagnostics);
+  const defaultLocale = locales.find((locale) => locale.default);
+
+  const sections: SiteSection[] = [];
+  for (const version of versions.length > 0 ? versions : [undefined]) {
+    const versionSections: SiteSection[] = [];
+
+    for (const locale of locales.length > 0 ? locales : [undefined]) {
+      const index = await buildContentIndex(version ? version.dir : dir, {
+        ...options,
+        locale: locale && {
+          code: locale.code,
+          defaultCode: defaultLocale!.code,
+          codes: locales.map((other) => other.code),
+        },
+      });
+      const name = [version?.name, locale?.code].filter(Boolean).join(" ");
+      console.log(
+        `Indexed ${index.byRoute.size} documents${name ? ` for ${name}` : ""}`
+      );
+      diagnostics.push(...collectDiagnostics(index));
+
+      versionSections.push({
+        version,
+        locale,
+        prefix: (version?.prefix || "") + (locale?.prefix || ""),
+        index,
+        sidebars: [],
+        fallbacks: new Set(),
+        redirects: new Map(),
+      });
+    }
+
+    // Translations fall back to the default locale's pages, so every locale
+    // has the same pages and sidebar
+    const primary = versionSections.find(isPrimarySection)!;
+    for (const section of versionSections) {
+      if (section === primary) continue;
+      for (const [route, doc] of primary.index.byRoute) {
+        if (section.index.byRoute.has(route)) continue;
+        section.index.byRoute.set(route, doc);
+        section.fallbacks.add(route);
+      }
+    }
+
+    for (const section of versionSections) {
+      const { sidebars, diagnostics: sidebarDiagnostics } = resolveSidebars(
+        section.index,
+        config.sidebar,
+        configFile
+      );
+      section.sidebars = sidebars;
+      diagnostics.push(...sidebarDiagnostics);
+      // Fallback pages are reported in the default locale
+      diagnostics.push(
+        ...getNavigationDiagnostics(
+          Array.from(section.index.byRoute.values()).filter(
+            (doc) => !section.fallbacks.has(doc.route)
+          ),
+          section.index
+        )
+      );
+    }
+    sections.push(...versionSections);
+  }
+
+  const { redirects, diagnostics: redirectDiagnostics } = resolveSiteRedirects(
+    sections,
+    config,
+    configFile
+  );
+  diagnostics.push(...redirectDiagnostics);
+
+  return { sections, redirects, diagnostics };
+}
+
+// Aliases lead to pages of their own version and locale, while the configured
+// redirects are taken as site paths. Returns the redirects to generate, by
+// output route.
+function resolveSiteRedirects(
+  sections: SiteSection[],
+  config: SiteConfig,
+  configFile: string
+): { redirects: Map<string, string>; diagnostics: Diagnostic[] } {
+  const { redirects: configured, diagnostics } = getConfigRedirects(
+    config,
+    configFile
+  );
+  const declared: Redirect[] = [...configured];
+  const routes = new Set<string>();
+  // Fallback pages would report their invalid aliases once per locale
+  const aliasDiagnostics = new Map<string, Diagnostic>();
+
+  for (const section of sections) {
+    const aliases = getAliasRedirects(section.index, section.prefix);
+    declared.push(...aliases.redirects);
+    aliases.diagnostics.forEach((diagnostic) =>
+      aliasDiagnostics.set(diagnostic.file, diagnostic)
+    );
+    for (const route of section.index.byRoute.keys()) {
+      routes.add(section.prefix + route);
+    }
+
+    section.redirects = new Map(
+      [...configured, ...getAliasRedirects(section.index).redirects].map(
+        (redirect) => [redirect.from, redirect.to]
+      )
+    );
+  }
+
+  const resolved = resolveRedirects(declared, routes);
+  return {
+    redirects: resolved.redirects,
+    diagnostics: [
+      ...diagnostics,
+      ...aliasDiagnostics.values(),
+      ...resolved.diagnostics,
+    ],
+  };
+}
+
+// Builds each configured feed for every version and locale with pages below
+// the feed's path. A locale's feed leaves out the pages it has no translation
+// of. Returns the feeds by the output route they are written under.
+function resolveSiteFeeds(
+  sections: SiteSection[],
+  config: SiteConfig,
+  configFile: string
+): { feeds: { route: string; feed: Feed }[]; diagnostics: Diagnostic[] } {
+  const siteUrl = getSiteUrl(config);
+  const { feeds: configured, diagnostics } = getConfigFeeds(
+    config,
+    siteUrl,
+    configFile
+  );
+  const feeds: { route: string; feed: Feed }[] = [];
+
+  for (const feedConfig of configured) {
+    let found = false;
+    for (const section of sections) {
+      const { prefix } = section;
+      const docs = Array.from(section.index.byRoute.values()).filter(
+        (doc) => !section.fallbacks.has(doc.route)
+      );
+      const { pages, diagnostics: pageDiagnostics } = getFeedPages(
+        docs,
+        feedConfig.path
+      );
+      diagnostics.push(...pageDiagnostics);
+      found ||= pages.length > 0 || pageDiagnostics.length > 0;
+      if (pages.length === 0) continue;
 
+      const landing = section.index.byRoute.get(feedConfig.path);
+      const title =
+        feedConfig.title ||
+        (landing
+          ? `${config.site.title}: ${landing.title}`
+          : config.site.title);
+      const route = prefix + (feedConfig.path === "/" ? "" : feedConfig.path);
+      feeds.push({
+        route,
+        feed: {
+          title,
+          description:
+            feedConfig.description ||
+            (landing && getPageDescription(landing, config)) ||
+            config.site.description ||
+            title,
+          url: siteUrl + prefix + (landing ? feedConfig.path : "/"),
+          atomUrl: `${siteUrl}${route}/feed.xml`,
+          rssUrl: `${siteUrl}${route}/rss.xml`,
+          author: config.site.title,
+          lang: section.locale?.code,
+          entries: pages.map(({ doc, date }) => {
+            const url = siteUrl + prefix + doc.route;
+            return {
+              title: doc.title,
+              url,
+              date,
+              html: absolutizeLinks(
+                prefixLinks(doc.html, prefix),
+                url,
+                siteUrl!
+              ),
+            };
+          }),
+        },
+      });
+    }
+
+    if (!found) {
+      diagnostics.push({
+        file: configFile,
+        severity: "warning",
+        message: `Feed ${feedConfig.path}: there are no pages below ${feedConfig.path}`,
+      });
+    }
+  }
+
+  return { feeds, diagnostics };
+}
+
+function isPrimarySection(section: SiteSection): boolean {
+  return !section.locale || section.locale.default;
+}
+
+// Links resolve within their own section, so one version or locale never
+// depends on the pages of another. Fallback pages are checked once, in the
+// default locale.
+export async function checkSectionLinks(
+  sections: SiteSection[]
+): Promise<LinkCheckResult> {
+  const result: LinkCheckResult = {
+    broken: [],
+    valid: [],
+    redirected: [],
+    external: [],
+  };
+  for (const section of sections) {
+    const docs = Array.from(section.index.byRoute.values()).filter(
+      (doc) => !section.fallbacks.has(doc.route)
+    );
+    const sectionResult = await checkInternalLinks(
+      section.index,
+      docs,
+      section.redirects
+    );
+    result.broken.push(...sectionResult.broken);
+    result.valid.push(...sectionResult.valid);
+    result.redirected.push(...sectionResult.redirected);
+    result.external.push(...sectionResult.external);
+  }
+  return result;
+}
+
+// Links from `route` to the same page in every version, keeping the locale,
+// and in every locale, keeping the version. Pages that don't exist there link
+// to the home page instead.
+function getSwitcherLinks(
+  sections: SiteSection[],
+  section: SiteSection,
+  route: string
+): Pick<PageContext, "versions" | "languages"> {
+  const link = (
+    target: SiteSection,
+    label: string,
+    lang?: string
+  ): SwitcherLink => ({
+    label,
+    href: target.prefix + (target.index.byRoute.has(route) ? route : "/"),
+    current: target === section,
+    lang,
+  });
+
+  return {
+    versions: section.version
+      ? sections
+          .filter((other) => other.locale === section.locale)
+          .map((other) => link(other, other.version!.label))
+      : [],
+    languages: section.locale
+      ? sections
+          .filter((other) => other.version === section.version)
+          .map((other) => link(other, other.locale!.label, other.locale!.code))
+      : [],
+  };
+}
+
+// What a page of `section` is rendered with besides the config and theme. The
+// dev server renders its pages from the same inputs as the build.
+export interface SectionPage {
+  // The page with its root-relative links pointed into the section
+  doc: DocMeta;
+  sidebarHtml: string;
+  navigation: PageNavigation;
+  context: PageContext;
+}
+
+export function prepareSectionPage(
+  sections: SiteSection[],
+  section: SiteSection,
+  route: string
+): SectionPage | undefined {
+  const doc = section.index.byRoute.get(route);
+  if (!doc) return undefined;
+
+  const { prefix } = section;
+  // Untranslated pages name the default locale's page as the original
+  const primary = sections.find(
+    (other) => other.version === section.version && isPrimarySection(other)
+  )!;
+  const sidebar = selectSidebar(section.sidebars, route);
+  return {
+    doc: { ...doc, html: prefixLinks(doc.html, prefix) },
+    sidebarHtml: prefixLinks(renderSidebar(sidebar), prefix),
+    navigation: prefixNavigation(
+      getPageNavigation(doc, sidebar, section.index),
+      prefix
+    ),
+    context: {
+      lang: section.locale?.code,
+      strings: section.locale?.strings,
+      ...getSwitcherLinks(sections, section, route),
+      untranslated: section.fallbacks.has(route),
+      searchIndex: `${prefix}/search-index.json`,
+      canonical:
+        (section.fallbacks.has(route) ? primary.prefix : prefix) + route,
+    },
+  };
+}
+
+// The 404 page shows the sidebar and language of the home section
+export function prepareNotFoundPage(
+  sections: SiteSection[]
+): Pick<SectionPage, "sidebarHtml" | "context"> {
+  const home = getHomeSection(sections);
+  return {
+    sidebarHtml: prefixLinks(
+      renderSidebar(selectSidebar(home.sidebars, "/")),
+      home.prefix
+    ),
+    context: {
+      lang: home.locale?.code,
+      strings: home.locale?.strings,
+      searchIndex: `${home.prefix}/search-index.json`,
+    },
+  };
+}
+
+// The latest version in the default locale, or the site itself
+function getHomeSection(sections: SiteSection[]): SiteSection {
+  const latest = sections.filter((section) => section.version?.latest);
+  return (
+    latest.find(isPrimarySection) ||
+    sections.find(isPrimarySection) ||
+    sections[0]
+  );
+}
+
+// The site root and /latest/ lead to the latest version
+export function getLatestRedirects(
+  sections: SiteSection[]
+): [string, string][] {
+  const latest = sections.filter((section) => section.version?.latest);
+  if (latest.length === 0) return [];
+
+  const redirects: [string, string][] = [
+    ["/", getHomeSection(sections).prefix + "/"],
+  ];
+  for (const section of latest) {
+    const localePrefix = section.locale?.prefix || "";
+    for (const route of section.index.byRoute.keys()) {
+      redirects.push([
+        "/latest" + localePrefix + route,
+        section.prefix + route,
+      ]);
+    }
+  }
+  return redirects;
+}
+
+export function getSectionSearchIndex(
+  section: SiteSection,
+  config: SiteConfig
+): SearchEntry[] {
+  const basePath = getBasePath(config);
+  return buildSearchIndex(section.index).map((entry) => ({
+    ...entry,
+    url: basePath + section.prefix + entry.url,
+  }));
+}
+
+async function buildSite(
+  dir: string,
+  out: string,
+  strict: boolean,
+  useCache: boolean,
+  pool: RenderPool | undefined
+): Promise<void> {
   console.log("Loading configuration...");
   const config = loadConfig(dir);
+  const { schema, diagnostics: schemaDiagnostics } = loadMarkdocSchema(dir);
+  const cache = useCache ? loadBuildCache(dir, out) : null;
 
   console.log("Building content index...");
-  const contentIndex = await buildContentIndex(dir, config.ignore);
-  console.log(`Indexed ${contentIndex.byRoute.size} documents`);
+  const { sections, redirects, diagnostics } = await loadSiteSections(
+    dir,
+    config,
+    {
+      ignore: config.ignore,
+      partials: config.partials,
+      schema,
+      frontMatterSchema: config.frontmatter,
+      cache: cache
+        ? { key: getDocumentCacheKey(dir, config), documents: cache.documents }
+        : undefined,
+      pool,
+    }
+  );
+
+  diagnostics.unshift(...schemaDiagnostics);
+
+  if (cache) {
+    for (const filePath of Object.keys(cache.documents)) {
+      if (!sections.some((section) => section.index.byPath.has(filePath))) {
+        delete cache.documents[filePath];
+      }
+    }
+  }
+
+  const { theme, diagnostics: themeDiagnostics } = resolveTheme(
+    dir,
+    config,
+    findConfigFile(dir) || ""
+  );
+  diagnostics.push(...themeDiagnostics);
+
+  const { feeds, diagnostics: feedDiagnostics } = resolveSiteFeeds(
+    sections,
+    config,
+    findConfigFile(dir) || ""
+  );
+  diagnostics.push(...feedDiagnostics);
+
+  printDiagnostics(diagnostics, dir);
 
   console.log("Checking links...");
-  const linkResult = await checkInternalLinks(contentIndex);
+  const linkResult = await checkSectionLinks(sections);
   printLinkCheckSummary(linkResult);
 
   if (config.linkcheck.enabled && linkResult.external.length > 0) {
     console.log("Checking external links...");
-    const externalUrls = linkResult.external.map((link) => link.href);
+    const externalUrls = Array.from(
+      new Set(linkResult.external.map((link) => link.href))
+    );
     const externalResult = await checkExternalLinks(
       externalUrls,
       config.linkcheck.externalTimeoutMs
@@ -54,61 +606,226 @@ export async function buildStaticSite(options: BuildOptions): Promise<void> {
     );
   }
 
+  const errorCount = countErrors(diagnostics);
+  if (errorCount > 0 && strict) {
+    console.log(`\nFound ${errorCount} content errors. Build failed.`);
+    process.exit(1);
+  } else if (errorCount > 0) {
+    console.log(
+      `\nFound ${errorCount} content errors (ignored due to --no-strict).`
+    );
+  }
+
   console.log("Building static files...");
 
-  // Create output directory
-  if (fs.existsSync(out)) {
+  // Incremental builds keep the previous output and only replace what
+  // changed; without the cache the output directory starts from scratch
+  if (!cache && fs.existsSync(out)) {
     fs.rmSync(out, { recursive: true });
   }
   fs.mkdirSync(out, { recursive: true });
 
   // Copy static assets
-  await copyStaticAssets(out);
+  await copyStaticAssets(out, theme);
+
+  // Render each page with the sidebar selected for its route. A page is
+  // skipped when its source, sidebar, navigation, config and templates are
+  // unchanged since the last build and its output still exists.
+  const pageKey = cache
+    ? hashContent(JSON.stringify(config), getTemplateHash(theme))
+    : "";
+  const pages: Record<string, CachedPage> = {};
+  const rendering: { route: string; html: Promise<string> }[] = [];
+  let skipped = 0;
+  const cards: { route: string; data: SocialCardData }[] = [];
+
+  for (const section of sections) {
+    for (const route of section.index.byRoute.keys()) {
+      const outputRoute = section.prefix + route;
+      const { doc, sidebarHtml, navigation, context } = prepareSectionPage(
+        sections,
+        section,
+        route
+      )!;
+      const outputPath = getOutputPath(out, outputRoute);
 
-  // Generate sidebar
-  const sidebar = generateSidebar(contentIndex, config.sidebar.order);
-  const sidebarHtml = renderSidebar(sidebar);
+      // Untranslated pages share the card of the original
+      if (hasSocialCards(config) && !section.fallbacks.has(route)) {
+        cards.push({
+          route: getSocialCardRoute(outputRoute),
+          data: getSocialCardData(doc, navigation, config),
+        });
+      }
+
+      if (cache) {
+        const key = hashContent(
+          pageKey,
+          cache.documents[doc.path].hash,
+          sidebarHtml,
+          JSON.stringify(navigation),
+          JSON.stringify(context)
+        );
+        pages[outputRoute] = { key, output: path.relative(out, outputPath) };
+
+        const previous = cache.pages[outputRoute];
+        if (previous?.key === key && fs.existsSync(outputPath)) {
+          skipped++;
+          continue;
+        }
+      }
 
-  // Render each page
-  for (const [route, doc] of contentIndex.byRoute) {
-    await renderPage(doc, sidebarHtml, config, out);
+      rendering.push({
+        route: outputRoute,
+        html: pool
+          ? pool.run({
+              type: "page",
+              doc,
+              sidebarHtml,
+              navigation,
+              config,
+              theme,
+              context,
+            })
+          : renderPage(doc, sidebarHtml, navigation, config, theme, context),
+      });
+    }
   }
 
-  // Generate 404 page
-  await generate404Page(config, sidebarHtml, out);
+  // Pages are written in index order once every render has finished, so the
+  // output matches a serial build however the work was scheduled
+  const htmls = await Promise.all(rendering.map((page) => page.html));
+  rendering.forEach((page, i) => writePage(page.route, htmls[i], out));
+
+  await writeSocialCards(cards, config, theme, dir, out, cache, pages, pool);
+
+  const basePath = getBasePath(config);
+  const redirectPages = [...getLatestRedirects(sections), ...redirects];
+
+  for (const [from, to] of redirectPages) {
+    const target = isExternal(to) ? to : basePath + to;
+    const outputPath = getOutputPath(out, from);
+    if (cache) {
+      const key = hashContent("redirect", target);
+      pages[from] = { key, output: path.relative(out, outputPath) };
+      if (cache.pages[from]?.key === key && fs.existsSync(outputPath)) {
+        continue;
+      }
+    }
+    writePage(from, renderRedirectPage(target), out);
+  }
+  writeRedirectFiles(redirects, config, basePath, out);
+  writeFeeds(feeds, out, cache ? pages : undefined);
+
+  // Write a client-side search index for each section. Like the feeds, they
+  // are recorded with the pages so the index of a removed version or locale
+  // is cleaned up.
+  for (const section of sections) {
+    const searchIndex = getSectionSearchIndex(section, config);
+    const indexFile = path.join(section.prefix.slice(1), "search-index.json");
+    const json = JSON.stringify(searchIndex);
+    fs.mkdirSync(path.join(out, section.prefix), { recursive: true });
+    fs.writeFileSync(path.join(out, indexFile), json);
+    if (cache) {
+      pages[`${section.prefix}/search-index.json`] = {
+        key: hashContent(json),
+        output: indexFile,
+      };
+    }
+    console.log(`Generated: ${indexFile} (${searchIndex.length} entries)`);
+  }
+
+  if (cache) {
+    removeStaleOutputs(cache, pages, out);
+    cache.pages = pages;
+    saveBuildCache(cache);
+    console.log(
+      `Rendered ${rendering.length} pages, skipped ${skipped} unchanged`
+    );
+  }
+
+  writeSitemap(sections, config, dir, out);
+
+  // Hosting platforms serve 404.html for routes without a page
+  const notFound = prepareNotFoundPage(sections);
+  fs.writeFileSync(
+    path.join(out, "404.html"),
+    await renderNotFoundPage(
+      notFound.sidebarHtml,
+      config,
+      theme,
+      notFound.context
+    )
+  );
+  console.log("Generated: 404.html");
 
   console.log("Static site built successfully!");
   console.log(`Output directory: ${out}`);
 }
 
-async function copyStaticAssets(outDir: string): Promise<void> {
+// Settings that change how every document is loaded, so editing one of them
+// invalidates all cached documents
+export function getDocumentCacheKey(dir: string, config: SiteConfig): string {
+  const schemaFile = findSchemaFile(dir);
+  return hashContent(
+    require("../package.json").version,
+    schemaFile ? fs.readFileSync(schemaFile, "utf8") : "",
+    JSON.stringify(config.frontmatter)
+  );
+}
+
+function getTemplateHash(theme: Theme): string {
+  return hashContent(...theme.templateDirs.map((dir) => hashDirectory(dir)));
+}
+
+// Deletes the output of pages that were built last time but no longer exist,
+// along with any directories left empty
+function removeStaleOutputs(
+  cache: BuildCache,
+  pages: Record<string, CachedPage>,
+  outDir: string
+): void {
+  for (const [route, page] of Object.entries(cache.pages)) {
+    if (pages[route]) continue;
+
+    const outputPath = path.join(outDir, page.output);
+    if (!fs.existsSync(outputPath)) continue;
+
+    fs.rmSync(outputPath);
+    console.log(`Removed: ${page.output}`);
+
+    let parent = path.dirname(outputPath);
+    while (
+      parent.startsWith(outDir + path.sep) &&
+      fs.readdirSync(parent).length === 0
+    ) {
+      fs.rmdirSync(parent);
+      parent = path.dirname(parent);
+    }
+  }
+}
+
+async function copyStaticAssets(outDir: string, theme: Theme): Promise<void> {
   const publicDir = path.join(__dirname, "web", "public");
   const outPublicDir = path.join(outDir);
 
-  // Copy CSS
-  const cssSource = path.join(publicDir, "styles.css");
-  const cssDest = path.join(outPublicDir, "styles.css");
-  fs.copyFileSync(cssSource, cssDest);
+  // Copy CSS and client scripts
+  for (const asset of ["styles.css", "components.js", "toc.js", "search.js"]) {
+    fs.copyFileSync(
+      path.join(publicDir, asset),
+      path.join(outPublicDir, asset)
+    );
+  }
+
+  // Theme assets are copied over the built-in ones, the docs theme folder last
+  for (const dir of [...theme.publicDirs].reverse()) {
+    fs.cpSync(dir, outDir, { recursive: true });
+  }
 
   console.log("Copied static assets");
 }
 
-async function renderPage(
-  doc: DocMeta,
-  sidebarHtml: string,
-  config: any,
-  outDir: string
-): Promise<void> {
-  const html = await renderPageTemplate(doc, sidebarHtml, config, false);
-
-  // Determine output path
-  let outputPath: string;
-  if (doc.route === "/") {
-    outputPath = path.join(outDir, "index.html");
-  } else {
-    const routePath = doc.route.substring(1); // Remove leading slash
-    outputPath = path.join(outDir, routePath, "index.html");
-  }
+function writePage(route: string, html: string, outDir: string): void {
+  const outputPath = getOutputPath(outDir, route);
 
   // Create directory if it doesn't exist
   const outputDir = path.dirname(outputPath);
@@ -119,101 +836,198 @@ async function renderPage(
   console.log(`Generated: ${path.relative(outDir, outputPath)}`);
 }
 
-async function renderPageTemplate(
-  doc: DocMeta,
-  sidebarHtml: string,
-  config: any,
-  isDev: boolean = false
-): Promise<string> {
-  return new Promise((resolve, reject) => {
-    ejs.renderFile(
-      path.join(__dirname, "web", "template", "page.ejs"),
-      {
-        siteTitle: config.site.title,
-        pageTitle: doc.title,
-        sidebar: sidebarHtml,
-        html: doc.html,
-        isDev,
-      },
-      (err, html) => {
-        if (err) {
-          reject(err);
-        } else {
-          resolve(html);
-        }
+function getOutputPath(outDir: string, route: string): string {
+  if (route === "/") {
+    return path.join(outDir, "index.html");
+  }
+  const routePath = route.substring(1); // Remove leading slash
+  return path.join(outDir, routePath, "index.html");
+}
+
+// Rasterizes the card of each page. A card is skipped when its SVG is the
+// same as in the last build and the PNG still exists.
+async function writeSocialCards(
+  cards: { route: string; data: SocialCardData }[],
+  config: SiteConfig,
+  theme: Theme,
+  dir: string,
+  outDir: string,
+  cache: BuildCache | null,
+  pages: Record<string, CachedPage>,
+  pool: RenderPool | undefined
+): Promise<void> {
+  if (cards.length === 0) return;
+
+  const rendering: { outputPath: string; png: Promise<Uint8Array> }[] = [];
+  for (const card of cards) {
+    const svg = await renderSocialCardSvg(card.data, config, theme, dir);
+    const outputPath = path.join(outDir, card.route);
+    if (cache) {
+      const key = hashContent(
+        "social-card",
+        require("../package.json").version,
+        svg
+      );
+      pages[card.route] = { key, output: path.relative(outDir, outputPath) };
+      if (cache.pages[card.route]?.key === key && fs.existsSync(outputPath)) {
+        continue;
       }
-    );
+    }
+    rendering.push({
+      outputPath,
+      png: pool ? pool.run({ type: "card", svg }) : renderSocialCard(svg),
+    });
+  }
+
+  const pngs = await Promise.all(rendering.map((card) => card.png));
+  rendering.forEach((card, i) => {
+    fs.mkdirSync(path.dirname(card.outputPath), { recursive: true });
+    fs.writeFileSync(card.outputPath, pngs[i]);
   });
+  console.log(
+    `Generated ${rendering.length} social cards, skipped ${
+      cards.length - rendering.length
+    } unchanged`
+  );
 }
 
-function renderSidebar(sidebarItems: any[]): string {
-  return renderSidebarItems(sidebarItems, 0);
+// Writes feed.xml (Atom) and rss.xml for each feed. They are cheap to render,
+// so they are written on every build, but recorded with the cached pages so
+// that the files of a removed feed are cleaned up.
+function writeFeeds(
+  feeds: { route: string; feed: Feed }[],
+  outDir: string,
+  pages: Record<string, CachedPage> | undefined
+): void {
+  for (const { route, feed } of feeds) {
+    fs.mkdirSync(path.join(outDir, route), { recursive: true });
+    const files: [string, string][] = [
+      ["feed.xml", renderAtomFeed(feed)],
+      ["rss.xml", renderRssFeed(feed)],
+    ];
+    for (const [name, xml] of files) {
+      const file = path.join(route.slice(1), name);
+      fs.writeFileSync(path.join(outDir, file), xml);
+      if (pages) {
+        pages[`${route}/${name}`] = { key: hashContent(xml), output: file };
+      }
+      console.log(`Generated: ${file} (${feed.entries.length} entries)`);
+    }
+  }
 }
 
-function renderSidebarItems(items: any[], depth: number): string {
-  if (items.length === 0) return "";
-
-  // Calculate indentation for clean HTML output
-  const indent = "  ".repeat(depth);
-  let html = `${indent}<ul>\n`;
+// Lists every indexable page with the date its source last changed. The
+// sitemap needs absolute URLs, so without an absolute `site.baseUrl` only
+// robots.txt is written.
+function writeSitemap(
+  sections: SiteSection[],
+  config: SiteConfig,
+  dir: string,
+  outDir: string
+): void {
+  const siteUrl = getSiteUrl(config);
+  const sitemapFile = path.join(outDir, "sitemap.xml");
 
-  for (const item of items) {
-    html += `${indent}  <li>\n`;
+  if (siteUrl) {
+    const pages = sections
+      .flatMap((section) =>
+        Array.from(section.index.byRoute)
+          .filter(
+            ([route, doc]) =>
+              !section.fallbacks.has(route) && doc.frontMatter.noindex !== true
+          )
+          .map(([route, doc]) => ({
+            url: siteUrl + section.prefix + route,
+            doc,
+          }))
+      )
+      .sort((a, b) => (a.url < b.url ? -1 : a.url > b.url ? 1 : 0));
+    const lastModified = getLastModified(
+      pages.map((page) => page.doc.path),
+      [
+        dir,
+        ...sections.flatMap((section) =>
+          section.version ? [section.version.dir] : []
+        ),
+      ]
+    );
+    fs.writeFileSync(
+      sitemapFile,
+      renderSitemap(
+        pages.map((page) => ({
+          url: page.url,
+          lastmod: lastModified.get(page.doc.path),
+        }))
+      )
+    );
+    console.log(`Generated: sitemap.xml (${pages.length} pages)`);
+  } else {
+    fs.rmSync(sitemapFile, { force: true });
+    console.log(
+      "Skipped sitemap.xml: site.baseUrl is not an absolute URL (https://...)"
+    );
+  }
 
-    // Create link for each item
-    html += `${indent}    <a href="${item.route}" class="sidebar-link">${item.title}</a>\n`;
+  fs.writeFileSync(
+    path.join(outDir, "robots.txt"),
+    renderRobotsTxt(siteUrl && `${siteUrl}/sitemap.xml`)
+  );
+  console.log("Generated: robots.txt");
+}
 
-    // Handle nested children recursively
-    if (item.children && item.children.length > 0) {
-      html += `${indent}    <div class="children">\n`;
-      html += renderSidebarItems(item.children, depth + 2); // Recurse with increased depth
-      html += `${indent}    </div>\n`;
-    }
+// Redirects for hosts that answer them with a real 301 before the redirect
+// pages are reached
+function writeRedirectFiles(
+  redirects: Map<string, string>,
+  config: SiteConfig,
+  basePath: string,
+  outDir: string
+): void {
+  const rules = Array.from(redirects, ([from, to]) => ({
+    source: basePath + from,
+    destination: isExternal(to) ? to : basePath + to,
+  }));
 
-    html += `${indent}  </li>\n`;
+  if (config.redirectFiles.includes("netlify")) {
+    fs.writeFileSync(
+      path.join(outDir, "_redirects"),
+      rules.map((rule) => `${rule.source} ${rule.destination} 301\n`).join("")
+    );
+    console.log("Generated: _redirects");
+  }
+  if (config.redirectFiles.includes("vercel")) {
+    fs.writeFileSync(
+      path.join(outDir, "vercel.json"),
+      JSON.stringify(
+        {
+          redirects: rules.map((rule) => ({ ...rule, permanent: true })),
+        },
+        null,
+        2
+      ) + "\n"
+    );
+    console.log("Generated: vercel.json");
   }
-
-  html += `${indent}</ul>\n`;
-  return html;
 }
 
-async function generate404Page(
-  config: any,
-  sidebarHtml: string,
-  outDir: string
-): Promise<void> {
-  const html = `
-    <!DOCTYPE html>
-    <html lang="en">
-    <head>
-      <meta charset="UTF-8">
-      <meta name="viewport" content="width=device-width, initial-scale=1.0">
-      <title>Page Not Found - ${config.site.title}</title>
-      <link rel="stylesheet" href="/styles.css">
-    </head>
-    <body>
-      <div class="container">
-        <aside class="sidebar">
-          <div class="sidebar-header">
-            <h1>${config.site.title}</h1>
-          </div>
-          <nav class="sidebar-nav">
-            ${sidebarHtml}
-          </nav>
-        </aside>
-        
-        <main class="content">
-          <h1>404 - Page Not Found</h1>
-          <p>The page you're looking for could not be found.</p>
-          <p><a href="/">← Back to Home</a></p>
-        </main>
-      </div>
-    </body>
-    </html>
-  `;
-
-  // Write 404.html file - hosting platforms look for this name
-  const outputPath = path.join(outDir, "404.html");
-  fs.writeFileSync(outputPath, html);
-  console.log("📄 Generated: 404.html");
+// Sends visitors on to `target`, keeping any heading anchor. Targets come from
+// the config, so they are escaped wherever they appear.
+function renderRedirectPage(target: string): string {
+  const href = escapeXml(target);
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <title>Redirecting…</title>
+    <link rel="canonical" href="${href}" />
+    <meta http-equiv="refresh" content="0; url=${href}" />
+    <script>
+      location.replace(${JSON.stringify(target).replace(/</g, "\\u003c")} + location.hash);
+    </script>
+  </head>
+  <body>
+    <p><a href="${href}">Continue to ${href}</a></p>
+  </body>
+</html>
+`;
 }
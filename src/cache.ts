@@ -0,0 +1,113 @@
+import * as fs from "fs";
+import * as path from "path";
+import { createHash } from "crypto";
+import { DocMeta } from "./content/types";
+
+// Bump when the manifest format or rendering output changes incompatibly
+const CACHE_VERSION = 1;
+
+export interface CachedDocument {
+  hash: string;
+  doc: DocMeta;
+}
+
+export interface CachedPage {
+  key: string;
+  output: string;
+}
+
+export interface BuildCache {
+  file: string;
+  version: number;
+  // Loaded documents keyed by source path
+  documents: Record<string, CachedDocument>;
+  // Rendered pages keyed by route
+  pages: Record<string, CachedPage>;
+}
+
+export function hashContent(...parts: string[]): string {
+  const hash = createHash("sha256");
+  for (const part of parts) {
+    hash.update(part);
+    hash.update("\0");
+  }
+  return hash.digest("hex");
+}
+
+// Hashes every file in a directory, so template or asset edits invalidate
+// the rendered pages.
+export function hashDirectory(dir: string): string {
+  if (!fs.existsSync(dir)) return hashContent("");
+
+  const parts: string[] = [];
+  const entries = fs
+    .readdirSync(dir, { withFileTypes: true })
+    .sort((a, b) => a.name.localeCompare(b.name));
+  for (const entry of entries) {
+    const entryPath = path.join(dir, entry.name);
+    parts.push(
+      entry.name,
+      entry.isDirectory()
+        ? hashDirectory(entryPath)
+        : hashContent(fs.readFileSync(entryPath, "utf8"))
+    );
+  }
+  return hashContent(...parts);
+}
+
+// Each docs/output pair gets its own manifest under .markrealm/cache
+export function loadBuildCache(docsDir: string, outDir: string): BuildCache {
+  const file = path.join(
+    process.cwd(),
+    ".markrealm",
+    "cache",
+    `${hashContent(docsDir, outDir).slice(0, 16)}.json`
+  );
+  const empty: BuildCache = {
+    file,
+    version: CACHE_VERSION,
+    documents: {},
+    pages: {},
+  };
+
+  if (!fs.existsSync(file)) return empty;
+
+  try {
+    const data = JSON.parse(fs.readFileSync(file, "utf8"), reviveDates);
+    if (data.version !== CACHE_VERSION) return empty;
+    return { ...empty, documents: data.documents, pages: data.pages };
+  } catch (error) {
+    console.warn(`Warning: Ignoring unreadable build cache ${file}:`, error);
+    return empty;
+  }
+}
+
+export function saveBuildCache(cache: BuildCache): void {
+  fs.mkdirSync(path.dirname(cache.file), { recursive: true });
+  fs.writeFileSync(
+    cache.file,
+    JSON.stringify(
+      {
+        version: cache.version,
+        documents: cache.documents,
+        pages: cache.pages,
+      },
+      preserveDates
+    )
+  );
+}
+
+// YAML front matter can contain Date objects, which JSON would turn into
+// strings. `this` is the object holding the value before toJSON() ran.
+function preserveDates(this: any, key: string, value: any): any {
+  const original = this[key];
+  return original instanceof Date && !Number.isNaN(original.getTime())
+    ? { $date: original.toISOString() }
+    : value;
+}
+
+function reviveDates(_key: string, value: any): any {
+  return value && typeof value === "object" && typeof value.$date === "string"
+    ? new Date(value.$date)
+    : value;
+}
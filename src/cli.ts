@@ -3,11 +3,12 @@
 import minimist from "minimist";
 import * as path from "path";
 import { MarkrealmServer } from "./server";
-import { buildContentIndex } from "./content/loader";
-import { checkInternalLinks, checkExternalLinks } from "./content/links";
+import { checkExternalLinks } from "./content/links";
+import { loadMarkdocSchema } from "./content/schema";
+import { countErrors, printDiagnostics } from "./content/diagnostics";
 import { loadConfig } from "./config";
 import { printLinkCheckSummary } from "./content/links";
-import { buildStaticSite } from "./build";
+import { buildStaticSite, checkSectionLinks, loadSiteSections } from "./build";
 
 interface CliArgs {
   _: string[];
@@ -15,6 +16,8 @@ interface CliArgs {
   port?: number;
   out?: string;
   "no-strict"?: boolean;
+  cache?: boolean;
+  concurrency?: number;
   help?: boolean;
   version?: boolean;
   h?: boolean;
@@ -41,6 +44,8 @@ OPTIONS:
   --port <number>     Port for dev server (default: 5173)
   --out <path>        Output directory for build (default: dist)
   --no-strict         Don't fail on broken links
+  --no-cache          Rebuild every page instead of reusing unchanged ones
+  --concurrency <n>   Render worker threads for build (default: CPU cores)
   --help, -h          Show this help message
   --version, -v       Show version
 
@@ -90,6 +95,17 @@ async function buildCommand(args: CliArgs): Promise<void> {
   const docsDir = args.dir || process.env.DOCS_DIR || DEFAULT_DIR;
   const outDir = args.out || "dist";
   const strict = !args["no-strict"];
+  // minimist parses --no-cache as `cache: false`
+  const cache = args.cache !== false;
+  const concurrency = args.concurrency;
+
+  if (
+    concurrency !== undefined &&
+    (!Number.isInteger(concurrency) || concurrency < 1)
+  ) {
+    console.error("❌ --concurrency must be a positive integer");
+    process.exit(1);
+  }
 
   console.log("Building static site...");
   console.log(`Source: ${path.resolve(docsDir)}`);
@@ -100,6 +116,8 @@ async function buildCommand(args: CliArgs): Promise<void> {
       dir: path.resolve(docsDir),
       out: path.resolve(outDir),
       strict,
+      cache,
+      concurrency,
     });
     console.log("Build completed successfully!");
   } catch (error) {
@@ -117,14 +135,31 @@ async function checkCommand(args: CliArgs): Promise<void> {
 
   try {
     const config = loadConfig(docsDir);
-    const contentIndex = await buildContentIndex(docsDir, config.ignore);
+    const { schema, diagnostics: schemaDiagnostics } = loadMarkdocSchema(
+      path.resolve(docsDir)
+    );
+    const { sections, diagnostics } = await loadSiteSections(
+      path.resolve(docsDir),
+      config,
+      {
+        ignore: config.ignore,
+        partials: config.partials,
+        schema,
+        frontMatterSchema: config.frontmatter,
+      }
+    );
+    diagnostics.unshift(...schemaDiagnostics);
+    printDiagnostics(diagnostics, path.resolve(docsDir));
 
-    const result = await checkInternalLinks(contentIndex);
+    // Each version is checked against its own pages
+    const result = await checkSectionLinks(sections);
     printLinkCheckSummary(result);
 
     if (config.linkcheck.enabled && result.external.length > 0) {
       console.log("\n🔗 Checking external links...");
-      const externalUrls = result.external.map((link: any) => link.href);
+      const externalUrls = Array.from(
+        new Set(result.external.map((link: any) => link.href))
+      );
 
       // Check external URLs with timeout to prevent hanging
       const externalResult = await checkExternalLinks(
@@ -142,13 +177,23 @@ async function checkCommand(args: CliArgs): Promise<void> {
         });
       }
     }
-    // Handle strict mode: fail on broken links or just warn
+    // Handle strict mode: fail on broken links or content errors, or just warn
     const totalBroken = result.broken.length;
+    const totalErrors = countErrors(diagnostics);
+    if (totalErrors > 0 && strict) {
+      console.log(
+        `\nFound ${totalErrors} content errors. Use --no-strict to ignore.`
+      );
+    } else if (totalErrors > 0) {
+      console.log(
+        `\nFound ${totalErrors} content errors (ignored due to --no-strict).`
+      );
+    }
+
     if (totalBroken > 0 && strict) {
       console.log(
         `\nFound ${totalBroken} broken links. Use --no-strict to ignore.`
       );
-      process.exit(1);
     } else if (totalBroken > 0) {
       console.log(
         `\nFound ${totalBroken} broken links (ignored due to --no-strict).`
@@ -156,6 +201,10 @@ async function checkCommand(args: CliArgs): Promise<void> {
     } else {
       console.log("\nAll links are valid!");
     }
+
+    if ((totalBroken > 0 || totalErrors > 0) && strict) {
+      process.exit(1);
+    }
   } catch (error) {
     console.error("Link check failed:", error);
     process.exit(1);
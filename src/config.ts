@@ -1,7 +1,8 @@
 import * as fs from "fs";
 import * as path from "path";
 import * as yaml from "js-yaml";
-import { SiteConfig } from "./content/types";
+import { Diagnostic, SiteConfig } from "./content/types";
+import { errorToDiagnostic } from "./content/diagnostics";
 
 const DEFAULT_CONFIG: SiteConfig = {
   site: {
@@ -15,41 +16,80 @@ const DEFAULT_CONFIG: SiteConfig = {
     enabled: true,
     externalTimeoutMs: 5000,
   },
+  toc: {
+    minLevel: 2,
+    maxLevel: 3,
+  },
+  frontmatter: {},
   ignore: [],
+  partials: [],
+  versions: [],
+  locales: [],
+  redirects: {},
+  redirectFiles: [],
+  socialCards: {
+    enabled: true,
+  },
+  feeds: [],
 };
 
-export function loadConfig(docsDir: string): SiteConfig {
-  const configFiles = [
-    "markrealm.config.yaml",
-    "markrealm.config.yml",
-    "markrealm.config.json",
-  ];
-  // Search for config files in order of preference
-  for (const configFile of configFiles) {
+export const CONFIG_FILES = [
+  "markrealm.config.yaml",
+  "markrealm.config.yml",
+  "markrealm.config.json",
+];
+
+// Returns the path of the config file that loadConfig would read, if any
+export function findConfigFile(docsDir: string): string | null {
+  for (const configFile of CONFIG_FILES) {
     const configPath = path.join(docsDir, configFile);
     if (fs.existsSync(configPath)) {
-      try {
-        const content = fs.readFileSync(configPath, "utf8");
-        let config: Partial<SiteConfig> = {};
-
-        // Parse based on file extension
-        if (configFile.endsWith(".json")) {
-          config = JSON.parse(content);
-        } else {
-          config = yaml.load(content) as Partial<SiteConfig>;
-        }
-        // Merge user config with defaults and return
-        return mergeConfig(DEFAULT_CONFIG, config);
-      } catch (error) {
-        console.warn(
-          `Warning: Failed to parse config file ${configFile}:`,
-          error
-        );
-      }
+      return configPath;
     }
   }
+  return null;
+}
 
-  return DEFAULT_CONFIG;
+export function loadConfig(docsDir: string): SiteConfig {
+  const { config, diagnostics } = readConfig(docsDir);
+  for (const diagnostic of diagnostics) {
+    console.warn(
+      `Warning: Failed to parse config file ${path.basename(diagnostic.file)}: ${diagnostic.message}`
+    );
+  }
+  return config;
+}
+
+// Like loadConfig, but reports a config file that fails to parse as a
+// diagnostic instead of a warning. The defaults are used in that case.
+export function readConfig(docsDir: string): {
+  config: SiteConfig;
+  diagnostics: Diagnostic[];
+} {
+  const configPath = findConfigFile(docsDir);
+  if (!configPath) {
+    return { config: DEFAULT_CONFIG, diagnostics: [] };
+  }
+
+  try {
+    const content = fs.readFileSync(configPath, "utf8");
+
+    // Parse based on file extension
+    const config: Partial<SiteConfig> = configPath.endsWith(".json")
+      ? JSON.parse(content)
+      : (yaml.load(content) as Partial<SiteConfig>);
+
+    // Merge user config with defaults and return
+    return {
+      config: mergeConfig(DEFAULT_CONFIG, config || {}),
+      diagnostics: [],
+    };
+  } catch (error) {
+    return {
+      config: DEFAULT_CONFIG,
+      diagnostics: [errorToDiagnostic(error, configPath)],
+    };
+  }
 }
 
 function mergeConfig(
@@ -69,7 +109,23 @@ function mergeConfig(
       ...defaultConfig.linkcheck,
       ...userConfig.linkcheck,
     },
+    toc: {
+      ...defaultConfig.toc,
+      ...userConfig.toc,
+    },
+    frontmatter: userConfig.frontmatter || defaultConfig.frontmatter,
     ignore: userConfig.ignore || defaultConfig.ignore,
+    partials: userConfig.partials || defaultConfig.partials,
+    versions: userConfig.versions || defaultConfig.versions,
+    locales: userConfig.locales || defaultConfig.locales,
+    theme: userConfig.theme ?? defaultConfig.theme,
+    redirects: userConfig.redirects || defaultConfig.redirects,
+    redirectFiles: userConfig.redirectFiles || defaultConfig.redirectFiles,
+    socialCards: {
+      ...defaultConfig.socialCards,
+      ...userConfig.socialCards,
+    },
+    feeds: userConfig.feeds || defaultConfig.feeds,
   };
 }
 
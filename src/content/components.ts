@@ -0,0 +1,193 @@
+import * as Markdoc from "@markdoc/markdoc";
+import type {
+  Config,
+  Node,
+  RenderableTreeNode,
+  Schema,
+} from "@markdoc/markdoc";
+import { MarkdocSchema } from "./schema";
+
+const { Tag } = Markdoc;
+
+const CALLOUT_TYPES = ["note", "warning", "danger"];
+const BADGE_TYPES = ["info", "success", "warning", "danger"];
+
+interface TabPanel {
+  label: string;
+  content: RenderableTreeNode[];
+}
+
+// Renders an accessible WAI-ARIA tab set. Ids are derived from the source
+// line so they stay stable between builds and unique within a page.
+function renderTabs(
+  node: Node,
+  panels: TabPanel[],
+  className: string
+): InstanceType<typeof Tag> {
+  const baseId = `${className}-${node.lines[0] ?? 0}`;
+
+  const buttons = panels.map(
+    (panel, index) =>
+      new Tag(
+        "button",
+        {
+          type: "button",
+          role: "tab",
+          id: `${baseId}-tab-${index}`,
+          "aria-controls": `${baseId}-panel-${index}`,
+          "aria-selected": index === 0 ? "true" : "false",
+          tabindex: index === 0 ? "0" : "-1",
+        },
+        [panel.label]
+      )
+  );
+
+  const panelTags = panels.map(
+    (panel, index) =>
+      new Tag(
+        "div",
+        {
+          role: "tabpanel",
+          id: `${baseId}-panel-${index}`,
+          "aria-labelledby": `${baseId}-tab-${index}`,
+          tabindex: "0",
+          ...(index === 0 ? {} : { hidden: "" }),
+        },
+        panel.content
+      )
+  );
+
+  return new Tag("div", { class: className, "data-tabs": true }, [
+    new Tag("div", { role: "tablist", class: "tabs-list" }, buttons),
+    ...panelTags,
+  ]);
+}
+
+const callout: Schema = {
+  children: ["paragraph", "tag", "list", "fence", "blockquote", "table"],
+  attributes: {
+    type: { type: String, default: "note", matches: CALLOUT_TYPES },
+    title: { type: String },
+  },
+  transform(node: Node, config: Config) {
+    const { type, title } = node.transformAttributes(config);
+    const children = node.transformChildren(config);
+
+    return new Tag(
+      "div",
+      {
+        class: `callout callout-${type}`,
+        role: type === "note" ? "note" : "alert",
+      },
+      [
+        ...(title ? [new Tag("p", { class: "callout-title" }, [title])] : []),
+        new Tag("div", { class: "callout-content" }, children),
+      ]
+    );
+  },
+};
+
+const tab: Schema = {
+  attributes: {
+    label: { type: String, required: true },
+  },
+  transform(node: Node, config: Config) {
+    // Only reached when a tab is used outside of {% tabs %}
+    return new Tag("div", { class: "tab" }, node.transformChildren(config));
+  },
+};
+
+const tabs: Schema = {
+  children: ["tag"],
+  transform(node: Node, config: Config) {
+    const panels = node.children
+      .filter((child) => child.type === "tag" && child.tag === "tab")
+      .map((child) => ({
+        label: String(child.attributes.label),
+        content: child.transformChildren(config),
+      }));
+
+    return renderTabs(node, panels, "tabs");
+  },
+};
+
+const codeGroup: Schema = {
+  children: ["fence"],
+  transform(node: Node, config: Config) {
+    const panels = node.children
+      .filter((child) => child.type === "fence")
+      .map((child) => ({
+        label: String(
+          child.attributes.title || child.attributes.language || "code"
+        ),
+        content: [Markdoc.transform(child, config)],
+      }));
+
+    return renderTabs(node, panels, "code-group");
+  },
+};
+
+const details: Schema = {
+  attributes: {
+    summary: { type: String, required: true },
+    open: { type: Boolean, default: false },
+  },
+  transform(node: Node, config: Config) {
+    const { summary, open } = node.transformAttributes(config);
+
+    return new Tag("details", { class: "details", ...(open && { open: "" }) }, [
+      new Tag("summary", {}, [summary]),
+      new Tag(
+        "div",
+        { class: "details-content" },
+        node.transformChildren(config)
+      ),
+    ]);
+  },
+};
+
+const badge: Schema = {
+  inline: true,
+  attributes: {
+    type: { type: String, default: "info", matches: BADGE_TYPES },
+  },
+  transform(node: Node, config: Config) {
+    const { type } = node.transformAttributes(config);
+    return new Tag(
+      "span",
+      { class: `badge badge-${type}` },
+      node.transformChildren(config)
+    );
+  },
+};
+
+const steps: Schema = {
+  children: ["list"],
+  transform(node: Node, config: Config) {
+    return new Tag("div", { class: "steps" }, node.transformChildren(config));
+  },
+};
+
+// Code fences accept a title so they can be labelled inside a code group
+const fence: Schema = {
+  ...Markdoc.nodes.fence,
+  attributes: {
+    ...Markdoc.nodes.fence.attributes,
+    title: { type: String, render: "data-title" },
+  },
+};
+
+export const builtinSchema: MarkdocSchema = {
+  tags: {
+    callout,
+    tabs,
+    tab,
+    "code-group": codeGroup,
+    details,
+    badge,
+    steps,
+  },
+  nodes: {
+    fence,
+  },
+};
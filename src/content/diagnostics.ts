@@ -0,0 +1,150 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ContentIndex, Diagnostic } from "./types";
+
+export function collectDiagnostics(index: ContentIndex): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  for (const doc of index.byPath.values()) {
+    diagnostics.push(...doc.diagnostics);
+  }
+  return diagnostics;
+}
+
+export function countErrors(diagnostics: Diagnostic[]): number {
+  return diagnostics.filter((diagnostic) => diagnostic.severity === "error")
+    .length;
+}
+
+// Formats a diagnostic as "guide/setup.md:12:3 error: message"
+export function formatDiagnostic(
+  diagnostic: Diagnostic,
+  rootDir: string
+): string {
+  let location = path.relative(rootDir, diagnostic.file);
+  if (diagnostic.line !== undefined) {
+    location += `:${diagnostic.line}`;
+    if (diagnostic.column !== undefined) {
+      location += `:${diagnostic.column}`;
+    }
+  }
+  return `${location} ${diagnostic.severity}: ${diagnostic.message}`;
+}
+
+export function printDiagnostics(
+  diagnostics: Diagnostic[],
+  rootDir: string
+): void {
+  if (diagnostics.length === 0) return;
+
+  const errors = countErrors(diagnostics);
+  const warnings = diagnostics.length - errors;
+
+  console.log("\n🩺 Diagnostics");
+  console.log("==============");
+  diagnostics.forEach((diagnostic) => {
+    const icon = diagnostic.severity === "error" ? "❌" : "⚠️ ";
+    console.log(`  ${icon} ${formatDiagnostic(diagnostic, rootDir)}`);
+  });
+  console.log(`\n${errors} error(s), ${warnings} warning(s)`);
+}
+
+// Converts an exception thrown while loading or rendering `file` into a
+// diagnostic. YAML errors carry the position of the problem; `lineOffset` is
+// the number of lines in the file before the YAML starts.
+export function errorToDiagnostic(
+  error: unknown,
+  file: string,
+  lineOffset: number = 0
+): Diagnostic {
+  if (error instanceof Error && error.name === "YAMLException") {
+    const { mark, reason } = error as Error & {
+      mark?: { line: number; column: number };
+      reason?: string;
+    };
+    return {
+      file,
+      line: mark ? mark.line + lineOffset + 1 : undefined,
+      column: mark ? mark.column + 1 : undefined,
+      severity: "error",
+      message: reason || error.message,
+    };
+  }
+
+  return {
+    file,
+    severity: "error",
+    message: error instanceof Error ? error.message : String(error),
+  };
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Returns the lines around `line` with a gutter of line numbers, marking the
+// offending line and, when known, the column. Empty when the file can't be read.
+export function getCodeExcerpt(
+  file: string,
+  line: number,
+  column?: number,
+  context: number = 2
+): string {
+  let lines: string[];
+  try {
+    lines = fs.readFileSync(file, "utf8").split("\n");
+  } catch {
+    return "";
+  }
+  if (line < 1 || line > lines.length) return "";
+
+  const first = Math.max(1, line - context);
+  const last = Math.min(lines.length, line + context);
+  const width = String(last).length;
+
+  const excerpt: string[] = [];
+  for (let number = first; number <= last; number++) {
+    const marker = number === line ? ">" : " ";
+    const gutter = `${marker} ${String(number).padStart(width)} | `;
+    excerpt.push(`${gutter}${lines[number - 1]}`);
+    if (number === line && column !== undefined) {
+      excerpt.push(`${" ".repeat(gutter.length + column - 1)}^`);
+    }
+  }
+  return excerpt.join("\n");
+}
+
+// Renders diagnostics, with an excerpt of the offending code where the line is
+// known, for the error overlay shown by the dev server.
+export function renderDiagnosticsOverlay(
+  diagnostics: Diagnostic[],
+  rootDir: string
+): string {
+  const items = diagnostics
+    .map((diagnostic) => {
+      const excerpt =
+        diagnostic.line === undefined
+          ? ""
+          : getCodeExcerpt(diagnostic.file, diagnostic.line, diagnostic.column);
+      return (
+        `    <li class="diagnostic diagnostic-${diagnostic.severity}"><code>${escapeHtml(
+          formatDiagnostic(diagnostic, rootDir)
+        )}</code>` +
+        (excerpt
+          ? `<pre class="diagnostic-excerpt">${escapeHtml(excerpt)}</pre>`
+          : "") +
+        `</li>\n`
+      );
+    })
+    .join("");
+
+  return (
+    `<div class="diagnostics-overlay" role="alert">\n` +
+    `  <h2>This page has ${diagnostics.length} problem(s)</h2>\n` +
+    `  <ul>\n${items}  </ul>\n` +
+    `</div>\n`
+  );
+}
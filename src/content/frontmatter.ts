@@ -0,0 +1,96 @@
+import { Diagnostic, FrontMatterField } from "./types";
+
+export interface FrontMatterValidation {
+  frontMatter: Record<string, any>;
+  diagnostics: Diagnostic[];
+}
+
+// Validates front matter against the schema declared in the site config and
+// fills in defaults for missing fields. `src` is the raw file content, used to
+// point diagnostics at the line declaring the offending field.
+export function validateFrontMatter(
+  frontMatter: Record<string, any>,
+  schema: Record<string, FrontMatterField>,
+  filePath: string,
+  src: string = ""
+): FrontMatterValidation {
+  const result: Record<string, any> = { ...frontMatter };
+  const diagnostics: Diagnostic[] = [];
+
+  const report = (field: string, message: string) => {
+    diagnostics.push({
+      file: filePath,
+      line: findFieldLine(src, field),
+      severity: "error",
+      message,
+    });
+  };
+
+  for (const [field, rule] of Object.entries(schema)) {
+    const value = result[field];
+
+    if (value === undefined || value === null) {
+      if (rule.default !== undefined) {
+        result[field] = rule.default;
+      } else if (rule.required) {
+        report(field, `\`${field}\` is required`);
+      }
+      continue;
+    }
+
+    if (rule.type && !matchesType(value, rule.type)) {
+      report(field, `\`${field}\` must be ${describeType(rule.type)}`);
+      continue;
+    }
+
+    if (rule.enum && !rule.enum.includes(value)) {
+      report(field, `\`${field}\` must be one of: ${rule.enum.join(", ")}`);
+    }
+  }
+
+  return { frontMatter: result, diagnostics };
+}
+
+function matchesType(
+  value: any,
+  type: NonNullable<FrontMatterField["type"]>
+): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && !Number.isNaN(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return (
+        typeof value === "object" && value !== null && !Array.isArray(value)
+      );
+    case "date":
+      // YAML parses unquoted ISO dates into Date objects
+      return (
+        (value instanceof Date && !Number.isNaN(value.getTime())) ||
+        (typeof value === "string" && !Number.isNaN(Date.parse(value)))
+      );
+    default:
+      return true;
+  }
+}
+
+function describeType(type: NonNullable<FrontMatterField["type"]>): string {
+  return type === "array" || type === "object" ? `an ${type}` : `a ${type}`;
+}
+
+// Returns the 1-based line of `field:` inside the front matter block
+function findFieldLine(src: string, field: string): number | undefined {
+  const lines = src.split("\n");
+  if (lines[0]?.trim() !== "---") return undefined;
+
+  for (let i = 1; i < lines.length; i++) {
+    if (lines[i].trim() === "---") break;
+    if (lines[i].startsWith(`${field}:`)) return i + 1;
+  }
+  return undefined;
+}
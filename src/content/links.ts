@@ -1,22 +1,30 @@
 import fetch from "node-fetch";
-import { ContentIndex, Link } from "./types";
+import { ContentIndex, DocMeta, Link } from "./types";
 
 export interface LinkCheckResult {
   broken: Link[];
   valid: Link[];
+  // Links that reach their page through a redirect or alias; they work but
+  // should point at the page itself
+  redirected: Link[];
   external: Link[];
 }
 
+// Checks the links of `docs`, by default every document in the index, against
+// the pages of the index and the routes in `redirects`
 export async function checkInternalLinks(
-  index: ContentIndex
+  index: ContentIndex,
+  docs: Iterable<DocMeta> = index.byRoute.values(),
+  redirects: Map<string, string> = new Map()
 ): Promise<LinkCheckResult> {
   const result: LinkCheckResult = {
     broken: [],
     valid: [],
+    redirected: [],
     external: [],
   };
 
-  for (const doc of index.byRoute.values()) {
+  for (const doc of docs) {
     for (const link of doc.links) {
       if (link.type === "external") {
         result.external.push(link);
@@ -27,6 +35,8 @@ export async function checkInternalLinks(
         const isValid = await checkInternalLink(link, index);
         if (isValid) {
           result.valid.push(link);
+        } else if (link.target && redirects.has(normalizeTarget(link.target))) {
+          result.redirected.push(link);
         } else {
           result.broken.push(link);
         }
@@ -45,21 +55,8 @@ async function checkInternalLink(
     return false;
   }
 
-  // Handle different link formats
-  let targetRoute = link.target;
-
-  // Add leading slash if missing
-  if (!targetRoute.startsWith("/")) {
-    targetRoute = `/${targetRoute}`;
-  }
-
-  // Remove trailing slash for consistency
-  if (targetRoute.endsWith("/") && targetRoute !== "/") {
-    targetRoute = targetRoute.slice(0, -1);
-  }
-
   // Check if route exists
-  const targetDoc = index.byRoute.get(targetRoute);
+  const targetDoc = index.byRoute.get(normalizeTarget(link.target));
   if (!targetDoc) {
     return false;
   }
@@ -77,6 +74,21 @@ async function checkInternalLink(
   return true;
 }
 
+function normalizeTarget(target: string): string {
+  let targetRoute = target;
+
+  // Add leading slash if missing
+  if (!targetRoute.startsWith("/")) {
+    targetRoute = `/${targetRoute}`;
+  }
+
+  // Remove trailing slash for consistency
+  if (targetRoute.endsWith("/") && targetRoute !== "/") {
+    targetRoute = targetRoute.slice(0, -1);
+  }
+  return targetRoute;
+}
+
 export async function checkExternalLinks(
   urls: string[],
   timeoutMs: number = 5000
@@ -154,6 +166,9 @@ export function printLinkCheckSummary(result: LinkCheckResult): void {
   console.log("====================");
   console.log(`✅ Valid internal links: ${result.valid.length}`);
   console.log(`❌ Broken internal links: ${result.broken.length}`);
+  if (result.redirected.length > 0) {
+    console.log(`⚠️  Links to redirected routes: ${result.redirected.length}`);
+  }
   console.log(`🔗 External links: ${result.external.length}`);
 
   if (result.broken.length > 0) {
@@ -162,4 +177,11 @@ export function printLinkCheckSummary(result: LinkCheckResult): void {
       console.log(`  • ${link.href} (${link.text})`);
     });
   }
+
+  if (result.redirected.length > 0) {
+    console.log("\n⚠️  Links to redirected routes (link to the page instead):");
+    result.redirected.forEach((link) => {
+      console.log(`  • ${link.href} (${link.text})`);
+    });
+  }
 }
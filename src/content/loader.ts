@@ -1,40 +1,209 @@
 import * as fs from "fs";
 import * as path from "path";
+import * as yaml from "js-yaml";
 import { globby } from "globby";
-import { DocMeta, ContentIndex } from "./types";
-import { renderMarkdocToHtml, extractTitle } from "./markdoc";
+import { DocMeta, ContentIndex, CategoryMeta, FrontMatterField } from "./types";
+import { renderMarkdocToHtml, extractTitle, MarkdocResult } from "./markdoc";
+import { validateFrontMatter } from "./frontmatter";
+import { errorToDiagnostic } from "./diagnostics";
+import { MarkdocSchema } from "./schema";
 import { isIgnoredPath } from "../config";
+import { CachedDocument, hashContent } from "../cache";
+import { RenderPool } from "../render-pool";
+import { LocaleSelection, splitLocalePath } from "../i18n";
+import { THEME_DIR } from "../theme";
+
+export interface LoaderOptions {
+  ignore: string[];
+  // Folders of partials, which are not loaded as pages
+  partials?: string[];
+  schema?: MarkdocSchema;
+  frontMatterSchema?: Record<string, FrontMatterField>;
+  cache?: DocumentCache;
+  // Parses documents on worker threads instead of the main thread
+  pool?: RenderPool;
+  // Loads only the documents of one locale, with routes relative to the
+  // locale folder or without the locale suffix
+  locale?: LocaleSelection;
+}
+
+// Previously loaded documents keyed by path. `key` hashes everything besides
+// the file content that affects loading, such as the Markdoc schema.
+export interface DocumentCache {
+  key: string;
+  documents: Record<string, CachedDocument>;
+}
 
 export async function buildContentIndex(
   docsDir: string,
-  ignorePatterns: string[]
+  options: LoaderOptions
 ): Promise<ContentIndex> {
-  const index: ContentIndex = { byRoute: new Map(), byPath: new Map() };
+  const index: ContentIndex = {
+    byRoute: new Map(),
+    byPath: new Map(),
+    categories: await loadCategories(docsDir, options.ignore, options.locale),
+  };
 
   const files = await globby("**/*.{md,mdoc}", {
     cwd: docsDir,
     absolute: true,
   });
 
-  for (const filePath of files) {
-    if (isIgnoredPath(filePath, ignorePatterns)) continue;
+  // Documents load concurrently but are indexed in sorted path order, so the
+  // index is the same however the work was scheduled
+  const docs = await Promise.all(
+    files
+      .filter(
+        (filePath) =>
+          !isIgnoredPath(filePath, options.ignore) &&
+          !isPartialFile(filePath, docsDir, options.partials) &&
+          !isThemeFile(filePath, docsDir) &&
+          isInLocale(filePath, docsDir, options.locale)
+      )
+      .sort()
+      .map((filePath) => loadDocumentAsync(filePath, docsDir, options))
+  );
 
-    const docMeta = loadDocument(filePath, docsDir);
-    if (docMeta) {
-      index.byRoute.set(docMeta.route, docMeta);
-      index.byPath.set(docMeta.path, docMeta);
-    }
+  for (const docMeta of docs) {
+    index.byRoute.set(docMeta.route, docMeta);
+    index.byPath.set(docMeta.path, docMeta);
   }
 
   return index;
 }
 
-function loadDocument(filePath: string, docsDir: string): DocMeta | null {
+function loadDocument(
+  filePath: string,
+  docsDir: string,
+  options: LoaderOptions
+): DocMeta {
   const content = fs.readFileSync(filePath, "utf8");
-  const result = renderMarkdocToHtml(content);
-  const route = generateRoute(filePath, docsDir);
+  const route = generateRoute(filePath, docsDir, options.locale);
+
+  const cached = findCachedDocument(filePath, route, content, options);
+  if (cached) return cached;
+
+  return cacheDocument(
+    route,
+    content,
+    parseDocument(filePath, docsDir, route, content, options),
+    options
+  );
+}
+
+async function loadDocumentAsync(
+  filePath: string,
+  docsDir: string,
+  options: LoaderOptions
+): Promise<DocMeta> {
+  const content = await fs.promises.readFile(filePath, "utf8");
+  const route = generateRoute(filePath, docsDir, options.locale);
+
+  const cached = findCachedDocument(filePath, route, content, options);
+  if (cached) return cached;
+
+  const doc = options.pool
+    ? await options.pool.run({
+        type: "document",
+        filePath,
+        docsDir,
+        route,
+        content,
+        frontMatterSchema: options.frontMatterSchema,
+      })
+    : parseDocument(filePath, docsDir, route, content, options);
+  return cacheDocument(route, content, doc, options);
+}
+
+function findCachedDocument(
+  filePath: string,
+  route: string,
+  content: string,
+  options: LoaderOptions
+): DocMeta | undefined {
+  const entry = options.cache?.documents[filePath];
+  if (!entry) return undefined;
+
+  const hash = hashDocument(route, content, entry.doc.dependencies, options);
+  return entry.hash === hash ? entry.doc : undefined;
+}
+
+function cacheDocument(
+  route: string,
+  content: string,
+  doc: DocMeta,
+  options: LoaderOptions
+): DocMeta {
+  if (options.cache) {
+    options.cache.documents[doc.path] = {
+      hash: hashDocument(route, content, doc.dependencies, options),
+      doc,
+    };
+  }
+  return doc;
+}
+
+// Covers the included partials too, so editing one invalidates its pages
+function hashDocument(
+  route: string,
+  content: string,
+  dependencies: string[] = [],
+  options: LoaderOptions
+): string {
+  return hashContent(
+    options.cache?.key || "",
+    route,
+    content,
+    ...dependencies.map((file) =>
+      fs.existsSync(file) ? fs.readFileSync(file, "utf8") : ""
+    )
+  );
+}
+
+// Turns the source of one document into its index entry. Runs on render
+// workers too, so it must not depend on anything besides its arguments.
+// Documents that fail to parse, for example because of invalid front matter
+// YAML, are kept as empty pages carrying the error as a diagnostic.
+export function parseDocument(
+  filePath: string,
+  docsDir: string,
+  route: string,
+  content: string,
+  options: Pick<LoaderOptions, "schema" | "frontMatterSchema">
+): DocMeta {
+  let result: MarkdocResult;
+  try {
+    result = renderMarkdocToHtml(content, {
+      filePath,
+      route,
+      // index.de.md is an index page too, unless its route kept the suffix
+      isIndex:
+        /^index(\.[^.]+)?\.(md|mdoc)$/.test(path.basename(filePath)) &&
+        !path.posix.basename(route).startsWith("index."),
+      schema: options.schema,
+      partialsDir: docsDir,
+    });
+  } catch (error) {
+    return {
+      path: filePath,
+      route,
+      title: extractTitle({ frontMatter: {}, headings: [] }),
+      headings: [],
+      frontMatter: {},
+      links: [],
+      html: "",
+      diagnostics: [errorToDiagnostic(error, filePath)],
+    };
+  }
+
+  const { frontMatter, diagnostics } = validateFrontMatter(
+    result.frontMatter,
+    options.frontMatterSchema || {},
+    filePath,
+    content
+  );
   const title = extractTitle({
-    frontMatter: result.frontMatter,
+    frontMatter,
     headings: result.headings,
   });
 
@@ -43,14 +212,123 @@ function loadDocument(filePath: string, docsDir: string): DocMeta | null {
     route,
     title,
     headings: result.headings,
-    frontMatter: result.frontMatter,
+    frontMatter,
     links: result.links,
     html: result.html,
+    diagnostics: [...diagnostics, ...result.diagnostics],
+    dependencies: result.dependencies,
   };
 }
 
-function generateRoute(filePath: string, docsDir: string): string {
-  const relativePath = path.relative(docsDir, filePath);
+export const CATEGORY_FILES = ["_category.yaml", "_category.yml"];
+
+export function isCategoryFile(filePath: string): boolean {
+  return CATEGORY_FILES.includes(path.basename(filePath));
+}
+
+// Reads the _category.yaml files that describe sidebar sections. For a
+// locale, categories of the locale folder replace the shared ones, and shared
+// labels are translated through their `labels` map.
+export async function loadCategories(
+  docsDir: string,
+  ignorePatterns: string[],
+  locale?: LocaleSelection
+): Promise<Map<string, CategoryMeta>> {
+  const categories = new Map<string, CategoryMeta>();
+  const localized = new Map<string, CategoryMeta>();
+
+  const files = await globby(`**/{${CATEGORY_FILES.join(",")}}`, {
+    cwd: docsDir,
+    absolute: true,
+  });
+
+  for (const filePath of files) {
+    if (isIgnoredPath(filePath, ignorePatterns)) continue;
+
+    let dir = path.relative(docsDir, path.dirname(filePath));
+    let target = categories;
+    if (locale) {
+      const { code, path: localePath } = splitLocalePath(
+        path.join(dir, path.basename(filePath)),
+        locale.codes
+      );
+      if (code !== undefined) {
+        if (code !== locale.code) continue;
+        dir = path.dirname(localePath) === "." ? "" : path.dirname(localePath);
+        target = localized;
+      }
+    }
+
+    try {
+      const meta = yaml.load(fs.readFileSync(filePath, "utf8")) as
+        CategoryMeta | undefined;
+      const label =
+        locale && target === categories
+          ? (meta?.labels?.[locale.code] ?? meta?.label)
+          : meta?.label;
+      target.set(dir ? `/${dir.split(path.sep).join("/")}` : "/", {
+        ...meta,
+        label,
+      });
+    } catch (error) {
+      console.warn(`Warning: Failed to parse ${filePath}:`, error);
+    }
+  }
+
+  for (const [route, meta] of localized) {
+    categories.set(route, meta);
+  }
+  return categories;
+}
+
+export function isDocumentFile(filePath: string): boolean {
+  return /\.(md|mdoc)$/.test(filePath);
+}
+
+// Files in the configured partials folders are included into pages rather
+// than published on their own
+export function isPartialFile(
+  filePath: string,
+  docsDir: string,
+  partials: string[] = []
+): boolean {
+  return partials.some((dir) => {
+    const relative = path.relative(path.resolve(docsDir, dir), filePath);
+    return (
+      !!relative && !relative.startsWith("..") && !path.isAbsolute(relative)
+    );
+  });
+}
+
+// Files in the theme folder are templates and assets, not pages
+function isThemeFile(filePath: string, docsDir: string): boolean {
+  return path.relative(docsDir, filePath).split(path.sep)[0] === THEME_DIR;
+}
+
+// Whether the file belongs to the selected locale. Files without a locale
+// folder or suffix belong to the default locale.
+function isInLocale(
+  filePath: string,
+  docsDir: string,
+  locale: LocaleSelection | undefined
+): boolean {
+  if (!locale) return true;
+  const { code } = splitLocalePath(
+    path.relative(docsDir, filePath),
+    locale.codes
+  );
+  return (code ?? locale.defaultCode) === locale.code;
+}
+
+function generateRoute(
+  filePath: string,
+  docsDir: string,
+  locale?: LocaleSelection
+): string {
+  let relativePath = path.relative(docsDir, filePath);
+  if (locale) {
+    relativePath = splitLocalePath(relativePath, locale.codes).path;
+  }
   const pathWithoutExt = relativePath.replace(/\.(md|mdoc)$/, "");
 
   if (path.basename(pathWithoutExt) === "index") {
@@ -65,7 +343,7 @@ export function updateDocumentInIndex(
   index: ContentIndex,
   filePath: string,
   docsDir: string,
-  ignorePatterns: string[]
+  options: LoaderOptions
 ): void {
   const oldDoc = index.byPath.get(filePath);
   if (oldDoc) {
@@ -73,13 +351,12 @@ export function updateDocumentInIndex(
     index.byPath.delete(filePath);
   }
 
-  if (isIgnoredPath(filePath, ignorePatterns)) return;
+  if (isIgnoredPath(filePath, options.ignore)) return;
+  if (isPartialFile(filePath, docsDir, options.partials)) return;
 
-  const docMeta = loadDocument(filePath, docsDir);
-  if (docMeta) {
-    index.byRoute.set(docMeta.route, docMeta);
-    index.byPath.set(docMeta.path, docMeta);
-  }
+  const docMeta = loadDocument(filePath, docsDir, options);
+  index.byRoute.set(docMeta.route, docMeta);
+  index.byPath.set(docMeta.path, docMeta);
 }
 
 export function removeDocumentFromIndex(
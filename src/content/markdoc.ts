@@ -1,33 +1,319 @@
 import * as Markdoc from "@markdoc/markdoc";
 import matter from "gray-matter";
-import { Heading, Link } from "./types";
+import * as fs from "fs";
+import * as path from "path";
+import { Diagnostic, Heading, Link } from "./types";
+import { MarkdocSchema, createMarkdocConfig } from "./schema";
+import { builtinSchema } from "./components";
 
 export interface MarkdocResult {
   html: string;
   frontMatter: Record<string, any>;
   headings: Heading[];
   links: Link[];
+  diagnostics: Diagnostic[];
+  // Absolute paths of the partials the document includes, directly or nested
+  dependencies: string[];
 }
 
-export function renderMarkdocToHtml(src: string): MarkdocResult {
+export interface RenderOptions {
+  // Source file path, reported in diagnostics
+  filePath?: string;
+  // Route of the document being rendered, used to resolve relative links
+  route?: string;
+  // Whether the source file is an index file (its route is its own directory)
+  isIndex?: boolean;
+  // Custom tags, nodes, functions and variables loaded from the docs directory
+  schema?: MarkdocSchema;
+  // Directory that `{% partial file="..." /%}` paths are relative to
+  partialsDir?: string;
+}
+
+export function renderMarkdocToHtml(
+  src: string,
+  options: RenderOptions = {}
+): MarkdocResult {
   const { data: frontMatter, content } = matter(src);
   const ast = Markdoc.parse(content);
-  const transformedAst = Markdoc.transform(ast);
+  // Front matter is stripped before parsing, so shift lines back to the file
+  const lineOffset =
+    src.slice(0, src.length - content.length).split("\n").length - 1;
+
+  const partials = options.partialsDir
+    ? loadPartials(ast, options.partialsDir)
+    : new Map<string, Markdoc.Node | null>();
+  const config: Markdoc.Config = {
+    ...createMarkdocConfig(
+      withBuiltinSchema(options.schema || {}),
+      frontMatter
+    ),
+    partials: {},
+  };
+  for (const [file, partial] of partials) {
+    if (!partial) continue;
+    const name = path.relative(options.partialsDir!, file);
+    config.partials![name.split(path.sep).join("/")] = partial;
+  }
+  // Validate before heading ids are generated: slugs such as "1-install" are
+  // valid HTML ids but would fail Markdoc's stricter id attribute check
+  const diagnostics = Markdoc.validate(ast, config).flatMap((error) =>
+    toDiagnostic(error, options.filePath || "", lineOffset)
+  );
+
+  // Partials are rendered in place, so their headings share the page's ids
+  // and their links resolve against the including page's route
+  const headings = extractHeadings(
+    walkWithPartials(ast, partials, options.partialsDir)
+  );
+  const links = extractLinks(
+    walkWithPartials(ast, partials, options.partialsDir),
+    options
+  );
+
+  const transformedAst = Markdoc.transform(ast, config);
   const html = Markdoc.renderers.html(transformedAst);
 
   return {
     html,
     frontMatter,
-    headings: [],
-    links: [],
+    headings,
+    links,
+    diagnostics,
+    dependencies: Array.from(partials.keys()),
+  };
+}
+
+// Parses the partials referenced from `ast`, and the partials those include,
+// keyed by absolute path. Missing files map to null: Markdoc reports them when
+// validating, and they stay dependencies so creating one updates the page.
+function loadPartials(
+  ast: Markdoc.Node,
+  partialsDir: string,
+  partials = new Map<string, Markdoc.Node | null>()
+): Map<string, Markdoc.Node | null> {
+  for (const node of ast.walk()) {
+    const file = getPartialFile(node, partialsDir);
+    if (file === undefined || partials.has(file)) continue;
+
+    if (!fs.existsSync(file)) {
+      partials.set(file, null);
+      continue;
+    }
+    const partial = Markdoc.parse(
+      matter(fs.readFileSync(file, "utf8")).content
+    );
+    partials.set(file, partial);
+    loadPartials(partial, partialsDir, partials);
+  }
+  return partials;
+}
+
+// The absolute path a `{% partial %}` tag includes
+function getPartialFile(
+  node: Markdoc.Node,
+  partialsDir: string
+): string | undefined {
+  if (node.type !== "tag" || node.tag !== "partial") return undefined;
+  if (typeof node.attributes.file !== "string") return undefined;
+  return path.join(partialsDir, node.attributes.file);
+}
+
+// Walks `ast` like `ast.walk()`, descending into each loaded partial right
+// after the tag that includes it. Partials that include themselves are
+// walked once.
+function* walkWithPartials(
+  ast: Markdoc.Node,
+  partials: Map<string, Markdoc.Node | null>,
+  partialsDir: string | undefined,
+  including = new Set<string>()
+): Generator<Markdoc.Node> {
+  for (const node of ast.walk()) {
+    yield node;
+    if (!partialsDir) continue;
+
+    const file = getPartialFile(node, partialsDir);
+    if (file === undefined || including.has(file)) continue;
+    const partial = partials.get(file);
+    if (!partial) continue;
+    yield* walkWithPartials(
+      partial,
+      partials,
+      partialsDir,
+      new Set([...including, file])
+    );
+  }
+}
+
+function toDiagnostic(
+  error: Markdoc.ValidateError,
+  file: string,
+  lineOffset: number
+): Diagnostic[] {
+  const { level, message } = error.error;
+  if (level === "debug" || level === "info") return [];
+
+  // Markdoc lines and characters are zero-based
+  const start = (error.error.location || error.location)?.start;
+  const line = start?.line ?? error.lines[0];
+  return [
+    {
+      file,
+      line: line === undefined ? undefined : line + lineOffset + 1,
+      column: start?.character === undefined ? undefined : start.character + 1,
+      severity: level === "warning" ? "warning" : "error",
+      message,
+    },
+  ];
+}
+
+// Merges the built-in component tags with the user schema. User-defined tags
+// and nodes take precedence so built-ins can be overridden by name.
+function withBuiltinSchema(schema: MarkdocSchema): MarkdocSchema {
+  return {
+    tags: { ...builtinSchema.tags, ...schema.tags },
+    nodes: { ...builtinSchema.nodes, ...schema.nodes },
+    functions: { ...builtinSchema.functions, ...schema.functions },
+    variables: { ...builtinSchema.variables, ...schema.variables },
   };
 }
 
+// Collects every heading and assigns it a unique slug id. The id is written
+// back onto the AST node so the rendered heading can be targeted by anchors.
+function extractHeadings(nodes: Iterable<Markdoc.Node>): Heading[] {
+  const headings: Heading[] = [];
+  const usedIds = new Map<string, number>();
+
+  for (const node of nodes) {
+    if (node.type !== "heading") continue;
+
+    const text = getNodeText(node);
+    let id: string = node.attributes.id || slugify(text);
+
+    // De-duplicate ids within a page: "setup", "setup-1", "setup-2". A
+    // suffixed id can clash with a heading such as "Setup 1", so the suffix
+    // counts on until the id is free.
+    let count = usedIds.get(id);
+    if (count !== undefined) {
+      let candidate: string;
+      do {
+        count++;
+        candidate = `${id}-${count}`;
+      } while (usedIds.has(candidate));
+      usedIds.set(id, count);
+      id = candidate;
+    }
+    usedIds.set(id, 0);
+
+    node.attributes.id = id;
+    headings.push({ level: node.attributes.level, text, id });
+  }
+
+  return headings;
+}
+
+// Collects every link and points internal ones at the route they resolve to
+function extractLinks(
+  nodes: Iterable<Markdoc.Node>,
+  options: RenderOptions
+): Link[] {
+  const links: Link[] = [];
+
+  for (const node of nodes) {
+    if (node.type !== "link") continue;
+
+    const href: string = node.attributes.href || "";
+    const text = getNodeText(node);
+
+    if (isExternalHref(href)) {
+      links.push({ href, text, type: "external" });
+      continue;
+    }
+
+    const { target, hash } = resolveLinkTarget(href, options);
+    links.push({ href, text, type: "internal", target, hash });
+
+    // Pages are written to <route>/index.html, where the browser would
+    // resolve "./setup.md" to a file that doesn't exist. Same-page anchors
+    // are left as they are.
+    if (!href.startsWith("#")) {
+      node.attributes.href = hash ? `${target}#${hash}` : target;
+    }
+  }
+
+  return links;
+}
+
+function getNodeText(node: Markdoc.Node): string {
+  let text = "";
+  for (const child of node.walk()) {
+    if (child.type === "text" || child.type === "code") {
+      text += child.attributes.content;
+    }
+  }
+  return text.replace(/\s+/g, " ").trim();
+}
+
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .trim()
+    .replace(/[^\p{L}\p{N}\s-]/gu, "")
+    .replace(/\s+/g, "-")
+    .replace(/-+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+function isExternalHref(href: string): boolean {
+  // Anything with a URL scheme (https:, mailto:, ...) or protocol-relative
+  return /^[a-z][a-z0-9+.-]*:/i.test(href) || href.startsWith("//");
+}
+
+// Resolves an internal href to the route it points at, relative to the
+// current document. "./setup.md#install" from /guide/intro becomes
+// { target: "/guide/setup", hash: "install" }.
+export function resolveLinkTarget(
+  href: string,
+  options: RenderOptions = {}
+): { target: string; hash?: string } {
+  const currentRoute = options.route || "/";
+  const hashIndex = href.indexOf("#");
+  const pathPart = (hashIndex === -1 ? href : href.slice(0, hashIndex)).split(
+    "?"
+  )[0];
+  const hash = hashIndex === -1 ? undefined : href.slice(hashIndex + 1);
+
+  // Same-page anchor
+  if (!pathPart) {
+    return { target: currentRoute, hash: hash || undefined };
+  }
+
+  // Relative links resolve against the directory holding the source file
+  const baseDir = options.isIndex
+    ? currentRoute
+    : path.posix.dirname(currentRoute);
+  let target = pathPart.startsWith("/")
+    ? path.posix.normalize(pathPart)
+    : path.posix.join(baseDir, pathPart);
+
+  target = target.replace(/\.(md|mdoc)$/, "");
+  target = target.replace(/\/index$/, "") || "/";
+  if (target.length > 1 && target.endsWith("/")) {
+    target = target.slice(0, -1);
+  }
+
+  return { target, hash: hash || undefined };
+}
+
 export function extractTitle({
   frontMatter,
+  headings,
 }: {
   frontMatter: Record<string, any>;
   headings: Heading[];
 }): string {
-  return frontMatter.title || "Untitled";
+  return (
+    frontMatter.title ||
+    headings.find((heading) => heading.level === 1)?.text ||
+    "Untitled"
+  );
 }
@@ -0,0 +1,110 @@
+import { ContentIndex, Diagnostic, DocMeta, SidebarItem } from "./types";
+import { toRoute } from "./sidebar";
+
+export interface NavLink {
+  title: string;
+  route?: string;
+}
+
+export interface PageNavigation {
+  prev?: NavLink;
+  next?: NavLink;
+  breadcrumbs: NavLink[];
+}
+
+// Derives previous/next links and breadcrumbs from the sidebar shown on the
+// page. Front matter `prev`/`next` can point at another page or be `false` to
+// hide the link.
+export function getPageNavigation(
+  doc: DocMeta,
+  sidebar: SidebarItem[],
+  index: ContentIndex
+): PageNavigation {
+  const pages = flattenSidebar(sidebar);
+
+  // The home page is not listed in the generated sidebar but leads into it
+  const home = index.byRoute.get("/");
+  if (home && !pages.some((page) => page.route === "/")) {
+    pages.unshift({ title: home.title, route: "/" });
+  }
+
+  const position = pages.findIndex((page) => page.route === doc.route);
+
+  const navigation: PageNavigation = {
+    prev: position > 0 ? pages[position - 1] : undefined,
+    next:
+      position !== -1 && position < pages.length - 1
+        ? pages[position + 1]
+        : undefined,
+    breadcrumbs: findBreadcrumbs(sidebar, doc.route) || [],
+  };
+
+  for (const key of ["prev", "next"] as const) {
+    const override = doc.frontMatter[key];
+    if (override === false) {
+      navigation[key] = undefined;
+    } else if (typeof override === "string") {
+      const target = index.byRoute.get(toRoute(override));
+      navigation[key] = target
+        ? { title: target.title, route: target.route }
+        : undefined;
+    }
+  }
+
+  return navigation;
+}
+
+// Reports `prev`/`next` front matter naming a page that doesn't exist, which
+// would otherwise just hide the link
+export function getNavigationDiagnostics(
+  docs: Iterable<DocMeta>,
+  index: ContentIndex
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  for (const doc of docs) {
+    for (const key of ["prev", "next"] as const) {
+      const override = doc.frontMatter[key];
+      if (typeof override !== "string") continue;
+      if (index.byRoute.has(toRoute(override))) continue;
+      diagnostics.push({
+        file: doc.path,
+        severity: "error",
+        message: `\`${key}\`: page \`${override}\` does not exist`,
+      });
+    }
+  }
+  return diagnostics;
+}
+
+// Lists every sidebar entry that links to a page, in reading order
+function flattenSidebar(items: SidebarItem[]): NavLink[] {
+  const pages: NavLink[] = [];
+  for (const item of items) {
+    if (item.route && !item.href) {
+      pages.push({ title: item.title, route: item.route });
+    }
+    if (item.children) {
+      pages.push(...flattenSidebar(item.children));
+    }
+  }
+  return pages;
+}
+
+// Returns the chain of sidebar entries leading to the route, ending with the
+// page itself, or null when the route is not in the sidebar.
+function findBreadcrumbs(
+  items: SidebarItem[],
+  route: string
+): NavLink[] | null {
+  for (const item of items) {
+    const crumb = { title: item.title, route: item.route };
+    if (item.route === route && !item.href) {
+      return [crumb];
+    }
+    if (item.children) {
+      const trail = findBreadcrumbs(item.children, route);
+      if (trail) return [crumb, ...trail];
+    }
+  }
+  return null;
+}
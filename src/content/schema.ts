@@ -0,0 +1,92 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { Config, Schema } from "@markdoc/markdoc";
+import { Diagnostic } from "./types";
+import { errorToDiagnostic } from "./diagnostics";
+
+export interface MarkdocSchema {
+  tags?: Record<string, Schema>;
+  nodes?: Record<string, Schema>;
+  functions?: Config["functions"];
+  variables?: Record<string, any>;
+}
+
+export const SCHEMA_FILES = [
+  "markrealm.schema.ts",
+  "markrealm.schema.js",
+  "markrealm.schema.cjs",
+];
+
+export function findSchemaFile(docsDir: string): string | null {
+  for (const schemaFile of SCHEMA_FILES) {
+    const schemaPath = path.join(docsDir, schemaFile);
+    if (fs.existsSync(schemaPath)) {
+      return schemaPath;
+    }
+  }
+  return null;
+}
+
+export function isSchemaFile(filePath: string): boolean {
+  return SCHEMA_FILES.includes(path.basename(filePath));
+}
+
+// Loads the schema file of the docs directory, if there is one. A schema that fails to load is an error, and the site is
+// loaded without one.
+export function loadMarkdocSchema(docsDir: string): {
+  schema: MarkdocSchema;
+  diagnostics: Diagnostic[];
+} {
+  const schemaPath = findSchemaFile(docsDir);
+  if (!schemaPath) return { schema: {}, diagnostics: [] };
+
+  try {
+    // Drop the cached module so edits are picked up on reload in dev mode.
+    // tsx caches it under the path with a query string.
+    for (const key of Object.keys(require.cache)) {
+      if (key.split("?")[0] === schemaPath) delete require.cache[key];
+    }
+    const mod = schemaPath.endsWith(".ts")
+      ? requireTypeScript(schemaPath)
+      : require(schemaPath);
+    const schema: MarkdocSchema = mod.default || mod;
+
+    return {
+      schema: {
+        tags: schema.tags || {},
+        nodes: schema.nodes || {},
+        functions: schema.functions || {},
+        variables: schema.variables || {},
+      },
+      diagnostics: [],
+    };
+  } catch (error) {
+    return { schema: {}, diagnostics: [errorToDiagnostic(error, schemaPath)] };
+  }
+}
+
+// Compiles a TypeScript schema on the fly, so it loads from the built CLI as
+// well as from source, without registering tsx for the rest of the process
+function requireTypeScript(file: string): any {
+  const tsx: {
+    require(id: string, fromFile: string): any;
+  } = require("tsx/cjs/api");
+  return tsx.require(file, __filename);
+}
+
+// Builds the Markdoc config for a single document. Front matter is exposed to
+// content as the `$frontmatter` variable alongside user-defined variables.
+export function createMarkdocConfig(
+  schema: MarkdocSchema,
+  frontMatter: Record<string, any> = {}
+): Config {
+  return {
+    tags: { ...schema.tags },
+    nodes: { ...schema.nodes },
+    functions: { ...schema.functions },
+    variables: {
+      ...schema.variables,
+      frontmatter: frontMatter,
+    },
+  };
+}
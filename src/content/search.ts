@@ -0,0 +1,72 @@
+import { ContentIndex, DocMeta } from "./types";
+
+// One searchable section of a page: the text between a heading and the next
+// one. `url` includes the heading anchor except for the page introduction.
+export interface SearchEntry {
+  url: string;
+  title: string;
+  section?: string;
+  text: string;
+}
+
+export function buildSearchIndex(index: ContentIndex): SearchEntry[] {
+  const docs = Array.from(index.byRoute.values()).sort((a, b) =>
+    a.route.localeCompare(b.route)
+  );
+
+  const entries: SearchEntry[] = [];
+  for (const doc of docs) {
+    if (doc.frontMatter.search === false) continue;
+    entries.push(...splitIntoSections(doc));
+  }
+  return entries;
+}
+
+const HEADING_PATTERN = /<h([1-6])[^>]*\sid="([^"]*)"[^>]*>([\s\S]*?)<\/h\1>/g;
+
+function splitIntoSections(doc: DocMeta): SearchEntry[] {
+  const entries: SearchEntry[] = [];
+  let lastIndex = 0;
+  let current: { id?: string; heading?: string } = {};
+
+  const flush = (html: string) => {
+    const text = htmlToText(html);
+    // A level-1 heading repeats the page title, so it is not a section
+    const isTitle = current.heading === doc.title;
+    if (!text && (isTitle || !current.heading)) return;
+
+    entries.push({
+      url: current.id && !isTitle ? `${doc.route}#${current.id}` : doc.route,
+      title: doc.title,
+      section: isTitle ? undefined : current.heading,
+      text,
+    });
+  };
+
+  for (const match of doc.html.matchAll(HEADING_PATTERN)) {
+    flush(doc.html.slice(lastIndex, match.index));
+    current = { id: match[2], heading: htmlToText(match[3]) };
+    lastIndex = match.index! + match[0].length;
+  }
+  flush(doc.html.slice(lastIndex));
+
+  return entries;
+}
+
+// Block-level tags separate words; inline tags such as <code> do not
+const BLOCK_TAG_PATTERN =
+  /<\/?(p|div|li|ul|ol|pre|h[1-6]|table|thead|tbody|tr|td|th|blockquote|br|hr|details|summary|article|section|button)\b[^>]*>/gi;
+
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style)[\s\S]*?<\/\1>/gi, " ")
+    .replace(BLOCK_TAG_PATTERN, " ")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/\s+/g, " ")
+    .trim();
+}
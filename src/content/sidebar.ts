@@ -1,31 +1,264 @@
-import { ContentIndex, SidebarItem } from "./types";
+import * as path from "path";
+import {
+  ContentIndex,
+  Diagnostic,
+  DocMeta,
+  SidebarEntry,
+  SidebarItem,
+  SiteConfig,
+} from "./types";
 
+export interface ResolvedSidebar {
+  name: string;
+  prefix?: string;
+  items: SidebarItem[];
+}
+
+// Builds a sidebar tree that mirrors the docs directory. Folders become
+// sections whose label, position, collapsed state and icon come from their
+// _category.yaml file or, failing that, the sidebar_* front matter of their
+// index page. The root index page is the site home and is not listed.
+// Passing `dir` returns only the items inside that folder.
 export function generateSidebar(
   index: ContentIndex,
-  order: string[] = []
+  order: string[] = [],
+  dir: string = "/"
 ): SidebarItem[] {
-  const docs = Array.from(index.byRoute.values());
-
-  // Simple flat list, apply order if specified
-  const items: SidebarItem[] = docs.map((doc) => ({
-    title: doc.title,
-    route: doc.route,
-  }));
-
-  if (order.length > 0) {
-    return items.sort((a, b) => {
-      const aIndex = order.findIndex((pattern) =>
-        a.route.includes(pattern.replace(/\.(md|mdoc)$/, ""))
-      );
-      const bIndex = order.findIndex((pattern) =>
-        b.route.includes(pattern.replace(/\.(md|mdoc)$/, ""))
-      );
-      if (aIndex !== -1 && bIndex !== -1) return aIndex - bIndex;
-      if (aIndex !== -1) return -1;
-      if (bIndex !== -1) return 1;
-      return a.title.localeCompare(b.title);
+  const root: SidebarItem = { title: "", children: [] };
+  const sections = new Map<string, SidebarItem>([["/", root]]);
+
+  const indexDocs = new Map<string, DocMeta>();
+  for (const doc of index.byRoute.values()) {
+    if (isIndexDocument(doc)) {
+      indexDocs.set(doc.route, doc);
+    }
+  }
+
+  const getSection = (dirRoute: string): SidebarItem => {
+    const existing = sections.get(dirRoute);
+    if (existing) return existing;
+
+    const parent = getSection(path.posix.dirname(dirRoute));
+    const meta = index.categories.get(dirRoute) || {};
+    const indexMatter = indexDocs.get(dirRoute)?.frontMatter || {};
+
+    const section: SidebarItem = {
+      title:
+        meta.label ??
+        indexMatter.sidebar_label ??
+        formatFolderName(path.posix.basename(dirRoute)),
+      route: indexDocs.has(dirRoute) ? dirRoute : undefined,
+      children: [],
+      position: meta.position ?? indexMatter.sidebar_position,
+      collapsed: meta.collapsed ?? indexMatter.sidebar_collapsed,
+      icon: meta.icon ?? indexMatter.sidebar_icon,
+    };
+
+    sections.set(dirRoute, section);
+    parent.children!.push(section);
+    return section;
+  };
+
+  for (const doc of index.byRoute.values()) {
+    if (doc.route === "/") continue;
+
+    if (isIndexDocument(doc)) {
+      getSection(doc.route);
+      continue;
+    }
+
+    getSection(path.posix.dirname(doc.route)).children!.push({
+      title: doc.frontMatter.sidebar_label ?? doc.title,
+      route: doc.route,
+      position: doc.frontMatter.sidebar_position,
     });
   }
 
-  return items.sort((a, b) => a.title.localeCompare(b.title));
+  return sortItems(sections.get(dir)?.children || [], order);
+}
+
+// Resolves the sidebars declared in the site config. Without explicit
+// sidebars a single one is generated from the directory structure. Entries
+// that reference missing pages are reported against `configFile`.
+export function resolveSidebars(
+  index: ContentIndex,
+  sidebarConfig: SiteConfig["sidebar"],
+  configFile: string = ""
+): { sidebars: ResolvedSidebar[]; diagnostics: Diagnostic[] } {
+  const order = sidebarConfig.order || [];
+  const definitions = Object.entries(sidebarConfig.sidebars || {});
+  const diagnostics: Diagnostic[] = [];
+
+  if (definitions.length === 0) {
+    return {
+      sidebars: [{ name: "default", items: generateSidebar(index, order) }],
+      diagnostics,
+    };
+  }
+
+  const sidebars = definitions.map(([name, definition]) => {
+    const report = (message: string) =>
+      diagnostics.push({
+        file: configFile,
+        severity: "error",
+        message: `Sidebar "${name}": ${message}`,
+      });
+
+    return {
+      name,
+      prefix: definition.prefix,
+      items: resolveEntries(definition.items || [], index, order, report),
+    };
+  });
+
+  return { sidebars, diagnostics };
+}
+
+// Picks the sidebar with the longest prefix matching the route, falling back
+// to a sidebar without a prefix.
+export function selectSidebar(
+  sidebars: ResolvedSidebar[],
+  route: string
+): SidebarItem[] {
+  let selected: ResolvedSidebar | undefined;
+
+  for (const sidebar of sidebars) {
+    if (sidebar.prefix === undefined) {
+      if (!selected) selected = sidebar;
+      continue;
+    }
+
+    const prefix = sidebar.prefix.replace(/\/$/, "");
+    const matches = route === prefix || route.startsWith(`${prefix}/`);
+    if (
+      matches &&
+      (selected?.prefix === undefined ||
+        prefix.length > selected.prefix.replace(/\/$/, "").length)
+    ) {
+      selected = sidebar;
+    }
+  }
+
+  return selected?.items || [];
+}
+
+function resolveEntries(
+  entries: SidebarEntry[],
+  index: ContentIndex,
+  order: string[],
+  report: (message: string) => void
+): SidebarItem[] {
+  const items: SidebarItem[] = [];
+
+  for (const entry of entries) {
+    if (typeof entry !== "string" && "group" in entry) {
+      let route: string | undefined;
+      if (entry.page) {
+        route = findDocument(index, entry.page)?.route;
+        if (!route) report(`page \`${entry.page}\` does not exist`);
+      }
+      items.push({
+        title: entry.group,
+        route,
+        children: resolveEntries(entry.items || [], index, order, report),
+        collapsed: entry.collapsed,
+        icon: entry.icon,
+      });
+    } else if (typeof entry === "string" || "page" in entry) {
+      const ref = typeof entry === "string" ? entry : entry.page;
+      const doc = findDocument(index, ref);
+      if (!doc) {
+        report(`page \`${ref}\` does not exist`);
+        continue;
+      }
+      items.push({
+        title:
+          (typeof entry !== "string" && "label" in entry && entry.label) ||
+          doc.frontMatter.sidebar_label ||
+          doc.title,
+        route: doc.route,
+      });
+    } else if ("href" in entry) {
+      items.push({ title: entry.label, href: entry.href });
+    } else if ("separator" in entry) {
+      items.push({ title: "", separator: true });
+    } else if ("autogenerate" in entry) {
+      const dir = toRoute(entry.autogenerate.dir);
+      const generated = generateSidebar(index, order, dir);
+      if (generated.length === 0) {
+        report(`autogenerate dir \`${entry.autogenerate.dir}\` has no pages`);
+      }
+      items.push(...generated);
+    } else {
+      report(`unknown entry ${JSON.stringify(entry)}`);
+    }
+  }
+
+  return items;
+}
+
+function findDocument(index: ContentIndex, ref: string): DocMeta | undefined {
+  return index.byRoute.get(toRoute(ref));
+}
+
+// "guide/setup.md" -> "/guide/setup", "guide/index" -> "/guide"
+export function toRoute(ref: string): string {
+  const route = `/${ref}`
+    .replace(/\/+/g, "/")
+    .replace(/^\/\.\//, "/")
+    .replace(/\.(md|mdoc)$/, "")
+    .replace(/\/index$/, "")
+    .replace(/\/$/, "");
+  return route || "/";
+}
+
+function sortItems(items: SidebarItem[], order: string[]): SidebarItem[] {
+  for (const item of items) {
+    if (item.children) {
+      sortItems(item.children, order);
+    }
+  }
+
+  const orderIndex = (item: SidebarItem) =>
+    item.route === undefined
+      ? -1
+      : order.findIndex((pattern) =>
+          item.route!.includes(pattern.replace(/\.(md|mdoc)$/, ""))
+        );
+
+  return items.sort((a, b) => {
+    // Explicit config order wins, then sidebar_position
+    const aIndex = orderIndex(a);
+    const bIndex = orderIndex(b);
+    if (aIndex !== -1 && bIndex !== -1) return aIndex - bIndex;
+    if (aIndex !== -1) return -1;
+    if (bIndex !== -1) return 1;
+
+    if (a.position !== undefined && b.position !== undefined) {
+      return a.position - b.position;
+    }
+    if (a.position !== undefined) return -1;
+    if (b.position !== undefined) return 1;
+
+    // Sections are listed before pages
+    if (a.children && !b.children) return -1;
+    if (!a.children && b.children) return 1;
+    return a.title.localeCompare(b.title);
+  });
+}
+
+// Locale suffixes such as index.de.md also mark index pages; their route is
+// still the folder's
+function isIndexDocument(doc: DocMeta): boolean {
+  return (
+    /^index\.(md|mdoc)$/.test(path.basename(doc.path)) ||
+    (/^index\.[^.]+\.(md|mdoc)$/.test(path.basename(doc.path)) &&
+      !path.posix.basename(doc.route).startsWith("index."))
+  );
+}
+
+// "getting-started" -> "Getting started"
+function formatFolderName(name: string): string {
+  const words = name.replace(/[-_]+/g, " ");
+  return words.charAt(0).toUpperCase() + words.slice(1);
 }
@@ -0,0 +1,18 @@
+import { DocMeta, Heading, SiteConfig } from "./types";
+
+// Picks the headings shown in a page's "On this page" table of contents.
+// Front matter `toc_min_level`/`toc_max_level` override the site config and
+// `toc: false` hides it.
+export function buildTableOfContents(
+  doc: DocMeta,
+  tocConfig: SiteConfig["toc"]
+): Heading[] {
+  if (doc.frontMatter.toc === false) return [];
+
+  const minLevel = doc.frontMatter.toc_min_level ?? tocConfig.minLevel;
+  const maxLevel = doc.frontMatter.toc_max_level ?? tocConfig.maxLevel;
+
+  return doc.headings.filter(
+    (heading) => heading.level >= minLevel && heading.level <= maxLevel
+  );
+}
@@ -6,6 +6,17 @@ export interface DocMeta {
   frontMatter: Record<string, any>;
   links: Link[];
   html: string;
+  diagnostics: Diagnostic[];
+  // Partials included by the document, as absolute paths
+  dependencies?: string[];
+}
+
+export interface Diagnostic {
+  file: string;
+  line?: number;
+  column?: number;
+  severity: "error" | "warning";
+  message: string;
 }
 
 export interface Heading {
@@ -25,33 +36,159 @@ export interface Link {
 export interface ContentIndex {
   byRoute: Map<string, DocMeta>;
   byPath: Map<string, DocMeta>;
+  // Folder metadata from _category.yaml files, keyed by folder route
+  categories: Map<string, CategoryMeta>;
+}
+
+export interface CategoryMeta {
+  label?: string;
+  // Translated labels keyed by locale code
+  labels?: Record<string, string>;
+  position?: number;
+  collapsed?: boolean;
+  icon?: string;
 }
 
 export interface SidebarItem {
   title: string;
-  route: string;
+  // Categories without an index page have no route of their own
+  route?: string;
+  // External link target for config-defined links
+  href?: string;
+  separator?: boolean;
   children?: SidebarItem[];
+  position?: number;
+  collapsed?: boolean;
+  icon?: string;
+}
+
+// Entries of an explicit sidebar in markrealm.config.yaml. A plain string
+// references a page by its path relative to the docs directory.
+export type SidebarEntry =
+  | string
+  | { page: string; label?: string }
+  | {
+      group: string;
+      items: SidebarEntry[];
+      page?: string;
+      collapsed?: boolean;
+      icon?: string;
+    }
+  | { label: string; href: string }
+  | { separator: true }
+  | { autogenerate: { dir: string } };
+
+export interface SidebarDefinition {
+  // Routes starting with this prefix use this sidebar
+  prefix?: string;
+  items: SidebarEntry[];
 }
 
 export interface SiteConfig {
   site: {
     title: string;
     baseUrl: string;
+    // Defaults for pages without their own `description`, `image` and
+    // `keywords` front matter
+    description?: string;
+    image?: string;
+    keywords?: string[];
+    // Twitter account of the site, e.g. "@markrealm"
+    twitter?: string;
   };
   sidebar: {
     order?: string[];
+    sidebars?: Record<string, SidebarDefinition>;
   };
   linkcheck: {
     enabled: boolean;
     externalTimeoutMs: number;
   };
+  toc: {
+    // Heading levels included in the "On this page" table of contents
+    minLevel: number;
+    maxLevel: number;
+  };
+  frontmatter: Record<string, FrontMatterField>;
   ignore: string[];
+  // Folders, relative to the docs directory, holding files that are included
+  // with {% partial %} instead of being published as pages
+  partials: string[];
+  // Documentation versions, each built under /<name>/. Empty for an
+  // unversioned site.
+  versions: VersionConfig[];
+  // Content languages. Empty for a single-language site.
+  locales: LocaleConfig[];
+  // Name of an installed theme package whose templates override the
+  // built-in ones
+  theme?: string;
+  // Old routes mapped to the route or URL they moved to
+  redirects: Record<string, string>;
+  // Host-specific redirect files written next to the redirect pages
+  redirectFiles: ("netlify" | "vercel")[];
+  // PNG link preview images rendered for each page
+  socialCards: {
+    enabled: boolean;
+    // EJS template producing the card's SVG, relative to the docs directory
+    // (default: the theme's social-card.ejs)
+    template?: string;
+  };
+  // Atom and RSS feeds of the pages below a route, such as release notes
+  feeds: FeedConfig[];
+}
+
+export interface FeedConfig {
+  // Route whose child pages are the feed's entries, e.g. "/changelog"
+  path: string;
+  // Default: the title of the page at `path`, after the site title
+  title?: string;
+  // Default: the description of the page at `path` or the site
+  description?: string;
+}
+
+export interface LocaleConfig {
+  // Language tag used in routes, folder names and file suffixes, e.g. "de"
+  code: string;
+  // Shown in the language switcher (default: code)
+  label?: string;
+  // The locale served without a route prefix (default: the first locale)
+  default?: boolean;
+  // Overrides for the template UI strings
+  strings?: Record<string, string>;
+}
+
+// A version's pages come from a folder or from a snapshot of a git ref
+export interface VersionConfig {
+  // URL segment, such as "v2"
+  name: string;
+  // Shown in the version switcher (default: name)
+  label?: string;
+  // Folder relative to the docs directory
+  dir?: string;
+  // Git ref to snapshot instead of a folder
+  ref?: string;
+  // Docs path inside the repository at `ref` (default: the docs directory's
+  // own path)
+  path?: string;
+  // The version /latest/ points to (default: the first version)
+  latest?: boolean;
+}
+
+export interface FrontMatterField {
+  type?: "string" | "number" | "boolean" | "date" | "array" | "object";
+  required?: boolean;
+  enum?: Array<string | number | boolean>;
+  default?: any;
 }
 
 export interface BuildOptions {
   dir: string;
   out: string;
   strict?: boolean;
+  // Reuse unchanged pages from the previous build (default: true)
+  cache?: boolean;
+  // Number of render worker threads (default: available CPU cores)
+  concurrency?: number;
 }
 
 export interface DevOptions {
@@ -0,0 +1,34 @@
+import * as path from "path";
+
+// Maps source files to the routes rendered from them, so the dev server can
+// tell which pages a change affects. Shared files and directories, such as
+// the site config, schema and templates, shape every page.
+export class DependencyGraph {
+  private dependents = new Map<string, Set<string>>();
+  private shared: string[];
+
+  constructor(shared: string[] = []) {
+    this.shared = shared.map((file) => path.resolve(file));
+  }
+
+  addPage(route: string, files: string[]): void {
+    for (const file of files) {
+      const key = path.resolve(file);
+      const routes = this.dependents.get(key) || new Set<string>();
+      routes.add(route);
+      this.dependents.set(key, routes);
+    }
+  }
+
+  isShared(file: string): boolean {
+    const resolved = path.resolve(file);
+    return this.shared.some(
+      (shared) => resolved === shared || resolved.startsWith(shared + path.sep)
+    );
+  }
+
+  // Routes built from `file`, in sorted order
+  getDependents(file: string): string[] {
+    return Array.from(this.dependents.get(path.resolve(file)) || []).sort();
+  }
+}
@@ -0,0 +1,191 @@
+import { Diagnostic, DocMeta, FeedConfig, SiteConfig } from "./content/types";
+import { escapeXml } from "./sitemap";
+import { applyBasePath } from "./urls";
+
+// 2024-05-01, optionally with a time and time zone
+const ISO_DATE =
+  /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+// A feed of one version and locale, with absolute URLs throughout
+export interface Feed {
+  title: string;
+  description: string;
+  // The page the feed belongs to
+  url: string;
+  atomUrl: string;
+  rssUrl: string;
+  author: string;
+  lang?: string;
+  // Newest first
+  entries: FeedEntry[];
+}
+
+export interface FeedEntry {
+  title: string;
+  url: string;
+  date: Date;
+  html: string;
+}
+
+// The `feeds` of the site config with usable paths, without a trailing slash.
+// Feed entries need absolute URLs, so feeds require an absolute
+// `site.baseUrl`.
+export function getConfigFeeds(
+  config: SiteConfig,
+  siteUrl: string | undefined,
+  configFile: string = ""
+): { feeds: FeedConfig[]; diagnostics: Diagnostic[] } {
+  const feeds: FeedConfig[] = [];
+  const diagnostics: Diagnostic[] = [];
+  if (config.feeds.length === 0) return { feeds, diagnostics };
+
+  if (!siteUrl) {
+    diagnostics.push({
+      file: configFile,
+      severity: "error",
+      message: "`feeds` need an absolute site.baseUrl (https://...)",
+    });
+    return { feeds, diagnostics };
+  }
+
+  for (const feed of config.feeds) {
+    if (typeof feed?.path !== "string" || !feed.path.startsWith("/")) {
+      diagnostics.push({
+        file: configFile,
+        severity: "error",
+        message: `Feed "${feed?.path}": path must be a route starting with /`,
+      });
+      continue;
+    }
+    feeds.push({ ...feed, path: feed.path.replace(/\/+$/, "") || "/" });
+  }
+  return { feeds, diagnostics };
+}
+
+// The pages below `feedPath` with their `date` front matter, newest first.
+// Pages without a valid date are reported and left out.
+export function getFeedPages(
+  docs: DocMeta[],
+  feedPath: string
+): { pages: { doc: DocMeta; date: Date }[]; diagnostics: Diagnostic[] } {
+  const pages: { doc: DocMeta; date: Date }[] = [];
+  const diagnostics: Diagnostic[] = [];
+  const parent = feedPath === "/" ? "/" : `${feedPath}/`;
+
+  for (const doc of docs) {
+    if (!doc.route.startsWith(parent) || doc.route === feedPath) continue;
+
+    const value = doc.frontMatter.date;
+    const date = parseFeedDate(value);
+    if (!date) {
+      diagnostics.push({
+        file: doc.path,
+        severity: "error",
+        message:
+          value === undefined || value === null
+            ? `\`date\` is required for pages in the ${feedPath} feed`
+            : `\`date\` must be a date like 2024-05-01, got "${value}"`,
+      });
+      continue;
+    }
+    pages.push({ doc, date });
+  }
+
+  pages.sort(
+    (a, b) =>
+      b.date.getTime() - a.date.getTime() ||
+      (a.doc.route < b.doc.route ? -1 : 1)
+  );
+  return { pages, diagnostics };
+}
+
+// YAML turns unquoted dates into Date objects, which the document cache
+// stores as ISO strings. Other strings must be ISO dates as well.
+export function parseFeedDate(value: unknown): Date | undefined {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? undefined : value;
+  }
+  if (typeof value !== "string" || !ISO_DATE.test(value)) return undefined;
+
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return undefined;
+  // Date rolls days like 2024-02-30 over into the next month
+  if (value.length === 10 && date.toISOString().slice(0, 10) !== value) {
+    return undefined;
+  }
+  return date;
+}
+
+// Feed readers show entries away from the site, so root-relative links get
+// the site URL and in-page anchors the page URL
+export function absolutizeLinks(
+  html: string,
+  pageUrl: string,
+  siteUrl: string
+): string {
+  return applyBasePath(html, siteUrl).replace(
+    /\bhref="#/g,
+    `href="${pageUrl}#`
+  );
+}
+
+export function renderAtomFeed(feed: Feed): string {
+  const lang = feed.lang ? ` xml:lang="${escapeXml(feed.lang)}"` : "";
+  const entries = feed.entries.map(
+    (entry) => `  <entry>
+    <title>${escapeXml(entry.title)}</title>
+    <link href="${escapeXml(entry.url)}" />
+    <id>${escapeXml(entry.url)}</id>
+    <published>${entry.date.toISOString()}</published>
+    <updated>${entry.date.toISOString()}</updated>
+    <content type="html">${escapeXml(entry.html)}</content>
+  </entry>
+`
+  );
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom"${lang}>
+  <title>${escapeXml(feed.title)}</title>
+  <subtitle>${escapeXml(feed.description)}</subtitle>
+  <link href="${escapeXml(feed.atomUrl)}" rel="self" />
+  <link href="${escapeXml(feed.url)}" />
+  <id>${escapeXml(feed.atomUrl)}</id>
+  <updated>${getUpdated(feed).toISOString()}</updated>
+  <author>
+    <name>${escapeXml(feed.author)}</name>
+  </author>
+${entries.join("")}</feed>
+`;
+}
+
+export function renderRssFeed(feed: Feed): string {
+  const language = feed.lang
+    ? `\n    <language>${escapeXml(feed.lang)}</language>`
+    : "";
+  const items = feed.entries.map(
+    (entry) => `    <item>
+      <title>${escapeXml(entry.title)}</title>
+      <link>${escapeXml(entry.url)}</link>
+      <guid isPermaLink="true">${escapeXml(entry.url)}</guid>
+      <pubDate>${entry.date.toUTCString()}</pubDate>
+      <description>${escapeXml(entry.html)}</description>
+    </item>
+`
+  );
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${escapeXml(feed.title)}</title>
+    <link>${escapeXml(feed.url)}</link>
+    <description>${escapeXml(feed.description)}</description>${language}
+    <atom:link href="${escapeXml(feed.rssUrl)}" rel="self" type="application/rss+xml" />
+    <lastBuildDate>${getUpdated(feed).toUTCString()}</lastBuildDate>
+${items.join("")}  </channel>
+</rss>
+`;
+}
+
+// The newest entry's date rather than the build time, so rebuilding an
+// unchanged site gives the same feed
+function getUpdated(feed: Feed): Date {
+  return feed.entries[0]?.date || new Date(0);
+}
@@ -0,0 +1,182 @@
+import * as path from "path";
+import { Diagnostic, SiteConfig } from "./content/types";
+
+// Text shown by the page templates and client scripts
+export interface UiStrings {
+  search: string;
+  searchLabel: string;
+  searchPlaceholder: string;
+  noResults: string;
+  onThisPage: string;
+  breadcrumb: string;
+  pagination: string;
+  previous: string;
+  next: string;
+  version: string;
+  language: string;
+  untranslated: string;
+  notFound: string;
+  notFoundText: string;
+  backHome: string;
+}
+
+const DEFAULT_STRINGS: UiStrings = {
+  search: "Search",
+  searchLabel: "Search documentation",
+  searchPlaceholder: "Search the docs…",
+  noResults: "No results",
+  onThisPage: "On this page",
+  breadcrumb: "Breadcrumb",
+  pagination: "Pagination",
+  previous: "Previous",
+  next: "Next",
+  version: "Documentation version",
+  language: "Language",
+  untranslated:
+    "This page has not been translated yet and is shown in its original language.",
+  notFound: "Page not found",
+  notFoundText: "The page you're looking for could not be found.",
+  backHome: "Back to home",
+};
+
+const BUILTIN_STRINGS: Record<string, Partial<UiStrings>> = {
+  de: {
+    search: "Suche",
+    searchLabel: "Dokumentation durchsuchen",
+    searchPlaceholder: "Dokumentation durchsuchen…",
+    noResults: "Keine Ergebnisse",
+    onThisPage: "Auf dieser Seite",
+    breadcrumb: "Brotkrumen",
+    pagination: "Seitennavigation",
+    previous: "Zurück",
+    next: "Weiter",
+    version: "Dokumentationsversion",
+    language: "Sprache",
+    untranslated:
+      "Diese Seite wurde noch nicht übersetzt und wird in der Originalsprache angezeigt.",
+    notFound: "Seite nicht gefunden",
+    notFoundText: "Die gesuchte Seite wurde nicht gefunden.",
+    backHome: "Zur Startseite",
+  },
+  ja: {
+    search: "検索",
+    searchLabel: "ドキュメントを検索",
+    searchPlaceholder: "ドキュメントを検索…",
+    noResults: "結果がありません",
+    onThisPage: "このページの内容",
+    breadcrumb: "パンくずリスト",
+    pagination: "ページナビゲーション",
+    previous: "前へ",
+    next: "次へ",
+    version: "ドキュメントのバージョン",
+    language: "言語",
+    untranslated:
+      "このページはまだ翻訳されていないため、原文で表示しています。",
+    notFound: "ページが見つかりません",
+    notFoundText: "お探しのページは見つかりませんでした。",
+    backHome: "ホームに戻る",
+  },
+};
+
+// English strings, overridden by the built-in translations for `code` and
+// then by `overrides` from the site config
+export function getUiStrings(
+  code: string = "en",
+  overrides: Partial<UiStrings> = {}
+): UiStrings {
+  const language = code.split("-")[0];
+  return {
+    ...DEFAULT_STRINGS,
+    ...BUILTIN_STRINGS[language],
+    ...BUILTIN_STRINGS[code],
+    ...overrides,
+  };
+}
+
+export interface ResolvedLocale {
+  code: string;
+  label: string;
+  // Prepended to the locale's routes, empty for the default locale
+  prefix: string;
+  default: boolean;
+  strings: UiStrings;
+}
+
+// Selects the documents of one locale when loading a docs directory
+export interface LocaleSelection {
+  code: string;
+  defaultCode: string;
+  codes: string[];
+}
+
+const LOCALE_CODE = /^[A-Za-z]{2,3}(-[A-Za-z0-9]+)*$/;
+
+// Resolves the locales declared in the site config. The default locale is
+// served without a prefix; invalid entries are left out and reported against
+// `configFile`.
+export function resolveLocales(
+  config: SiteConfig,
+  configFile: string = ""
+): { locales: ResolvedLocale[]; diagnostics: Diagnostic[] } {
+  const diagnostics: Diagnostic[] = [];
+  const entries = config.locales.filter((entry) => {
+    const report = (message: string) =>
+      diagnostics.push({
+        file: configFile,
+        severity: "error",
+        message: `Locale "${entry.code}": ${message}`,
+      });
+
+    if (!entry.code || !LOCALE_CODE.test(entry.code)) {
+      report('code must be a language tag such as "de" or "pt-BR"');
+      return false;
+    }
+    if (config.locales.find((other) => other.code === entry.code) !== entry) {
+      report("declared more than once");
+      return false;
+    }
+    return true;
+  });
+
+  const defaults = entries.filter((entry) => entry.default);
+  if (defaults.length > 1) {
+    diagnostics.push({
+      file: configFile,
+      severity: "error",
+      message: `Only one locale can be the default, found ${defaults
+        .map((entry) => entry.code)
+        .join(", ")}`,
+    });
+  }
+  const defaultEntry = defaults[0] || entries[0];
+
+  const locales = entries.map((entry) => ({
+    code: entry.code,
+    label: entry.label || entry.code,
+    prefix: entry === defaultEntry ? "" : `/${entry.code}`,
+    default: entry === defaultEntry,
+    strings: getUiStrings(entry.code, entry.strings as Partial<UiStrings>),
+  }));
+
+  return { locales, diagnostics };
+}
+
+// "de/guide.md" and "guide.de.md" -> { code: "de", path: "guide.md" }. Files
+// outside a locale folder and without a locale suffix have no code and belong
+// to the default locale.
+export function splitLocalePath(
+  relativePath: string,
+  codes: string[]
+): { code?: string; path: string } {
+  const segments = relativePath.split(path.sep);
+  if (segments.length > 1 && codes.includes(segments[0])) {
+    return { code: segments[0], path: segments.slice(1).join(path.sep) };
+  }
+
+  const suffix = /^(.*)\.([^.]+)\.(md|mdoc)$/.exec(relativePath);
+  if (suffix && codes.includes(suffix[2])) {
+    return { code: suffix[2], path: `${suffix[1]}.${suffix[3]}` };
+  }
+
+  return { path: relativePath };
+}
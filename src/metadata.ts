@@ -0,0 +1,128 @@
+import { DocMeta, SiteConfig } from "./content/types";
+import { PageNavigation } from "./content/navigation";
+import { htmlToText } from "./content/search";
+import { isExternal } from "./redirects";
+import { getBasePath, getSiteUrl } from "./urls";
+
+// Search engines cut descriptions off around this length
+const DESCRIPTION_LENGTH = 160;
+
+// What the page head tells search engines and link previews about a page
+export interface PageMetadata {
+  description: string;
+  keywords: string[];
+  // Absolute when `site.baseUrl` is, since previews need a full URL
+  image: string;
+  twitterSite: string;
+  // Serialized JSON-LD blocks, safe to place inside <script>
+  jsonLd: string[];
+}
+
+// Front matter `description`, `image` and `keywords` win over the page's
+// social card, if it has one, and the site defaults
+export function getPageMetadata(
+  doc: DocMeta,
+  navigation: PageNavigation,
+  config: SiteConfig,
+  canonicalUrl: string,
+  lang: string,
+  socialCard?: string
+): PageMetadata {
+  const { frontMatter } = doc;
+  const description = getPageDescription(doc, config);
+  const keywords = getKeywords(frontMatter.keywords) || config.site.keywords;
+  const image = getString(frontMatter.image) || socialCard || config.site.image;
+  const siteUrl = getSiteUrl(config);
+  const absolute = (url: string) =>
+    isExternal(url)
+      ? url
+      : (siteUrl ?? getBasePath(config)) + `/${url}`.replace(/^\/+/, "/");
+
+  const metadata: PageMetadata = {
+    description,
+    keywords: keywords || [],
+    image: image ? absolute(image) : "",
+    twitterSite: config.site.twitter || "",
+    jsonLd: [],
+  };
+
+  // Pages kept out of search engines get no structured data
+  if (frontMatter.noindex === true) return metadata;
+
+  metadata.jsonLd.push(
+    serialize({
+      "@context": "https://schema.org",
+      "@type": "TechArticle",
+      headline: doc.title,
+      description: description || undefined,
+      keywords: keywords ? keywords.join(", ") : undefined,
+      image: metadata.image || undefined,
+      url: canonicalUrl || undefined,
+      inLanguage: lang,
+      isPartOf: {
+        "@type": "WebSite",
+        name: config.site.title,
+        url: siteUrl ? `${siteUrl}/` : undefined,
+      },
+    })
+  );
+
+  if (navigation.breadcrumbs.length > 1) {
+    metadata.jsonLd.push(
+      serialize({
+        "@context": "https://schema.org",
+        "@type": "BreadcrumbList",
+        itemListElement: navigation.breadcrumbs.map((crumb, i) => ({
+          "@type": "ListItem",
+          position: i + 1,
+          name: crumb.title,
+          item: crumb.route ? absolute(crumb.route) : undefined,
+        })),
+      })
+    );
+  }
+
+  return metadata;
+}
+
+// A page without a description is summed up by its first paragraph
+export function getPageDescription(doc: DocMeta, config: SiteConfig): string {
+  return (
+    getString(doc.frontMatter.description) ||
+    summarize(doc.html) ||
+    config.site.description ||
+    ""
+  );
+}
+
+// The text of the first paragraph, shortened at a word boundary
+function summarize(html: string): string {
+  const paragraph = html.match(/<p\b[^>]*>([\s\S]*?)<\/p>/i);
+  if (!paragraph) return "";
+
+  const text = htmlToText(paragraph[1]);
+  if (text.length <= DESCRIPTION_LENGTH) return text;
+  const cut = text.slice(0, DESCRIPTION_LENGTH - 1);
+  return `${cut.slice(0, cut.lastIndexOf(" ")) || cut}…`;
+}
+
+// Keywords are a list or a comma-separated string
+function getKeywords(value: unknown): string[] | undefined {
+  const list =
+    typeof value === "string"
+      ? value.split(",")
+      : Array.isArray(value)
+        ? value.filter((keyword) => typeof keyword === "string")
+        : [];
+  const keywords = list.map((keyword) => keyword.trim()).filter(Boolean);
+  return keywords.length > 0 ? keywords : undefined;
+}
+
+function getString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+// "</script>" in a value must not end the script element
+function serialize(data: object): string {
+  return JSON.stringify(data).replace(/</g, "\\u003c");
+}
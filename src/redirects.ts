@@ -0,0 +1,150 @@
+import { ContentIndex, Diagnostic, SiteConfig } from "./content/types";
+
+// A route that sends visitors on to another page
+export interface Redirect {
+  from: string;
+  // A route, optionally with a #hash, or an absolute URL
+  to: string;
+  // Where the redirect is declared, for diagnostics
+  file: string;
+}
+
+// Redirects from the `aliases` front matter of every page in the index. Both
+// ends get `prefix`, so an alias stays inside its version and locale.
+export function getAliasRedirects(
+  index: ContentIndex,
+  prefix: string = ""
+): { redirects: Redirect[]; diagnostics: Diagnostic[] } {
+  const redirects: Redirect[] = [];
+  const diagnostics: Diagnostic[] = [];
+
+  for (const doc of index.byRoute.values()) {
+    const aliases = doc.frontMatter.aliases;
+    if (aliases === undefined || aliases === null) continue;
+
+    const list = typeof aliases === "string" ? [aliases] : aliases;
+    if (
+      !Array.isArray(list) ||
+      list.some((alias) => typeof alias !== "string" || !alias.startsWith("/"))
+    ) {
+      diagnostics.push({
+        file: doc.path,
+        severity: "error",
+        message: "`aliases` must be a list of routes starting with /",
+      });
+      continue;
+    }
+
+    for (const alias of list) {
+      redirects.push({
+        from: normalizeRoute(prefix + alias),
+        to: prefix + doc.route,
+        file: doc.path,
+      });
+    }
+  }
+
+  return { redirects, diagnostics };
+}
+
+// The `redirects` map of the site config, from route to route or URL
+export function getConfigRedirects(
+  config: SiteConfig,
+  configFile: string = ""
+): { redirects: Redirect[]; diagnostics: Diagnostic[] } {
+  const redirects: Redirect[] = [];
+  const diagnostics: Diagnostic[] = [];
+
+  for (const [from, to] of Object.entries(config.redirects)) {
+    if (!from.startsWith("/") || typeof to !== "string" || !to) {
+      diagnostics.push({
+        file: configFile,
+        severity: "error",
+        message: `Redirect "${from}": must map a route starting with / to a route or URL`,
+      });
+      continue;
+    }
+    redirects.push({ from: normalizeRoute(from), to, file: configFile });
+  }
+
+  return { redirects, diagnostics };
+}
+
+// Checks redirects against the pages of the site and returns the usable ones
+// by route. A redirect from an existing page or two redirects from the same
+// route are left out; redirects to a missing page or to another redirect are
+// kept but reported, since they still lead somewhere.
+export function resolveRedirects(
+  redirects: Redirect[],
+  routes: Set<string>
+): { redirects: Map<string, string>; diagnostics: Diagnostic[] } {
+  const accepted = new Map<string, Redirect>();
+  const diagnostics: Diagnostic[] = [];
+  const report = (redirect: Redirect, message: string) =>
+    diagnostics.push({
+      file: redirect.file,
+      severity: "error",
+      message: `Redirect from ${redirect.from}: ${message}`,
+    });
+
+  for (const redirect of redirects) {
+    if (routes.has(redirect.from)) {
+      report(redirect, "collides with an existing page");
+      continue;
+    }
+
+    const existing = accepted.get(redirect.from);
+    if (existing) {
+      if (existing.to !== redirect.to) {
+        report(redirect, `already redirects to ${existing.to}`);
+      }
+      continue;
+    }
+    accepted.set(redirect.from, redirect);
+  }
+
+  const resolved = new Map<string, string>();
+  for (const redirect of accepted.values()) {
+    resolved.set(redirect.from, redirect.to);
+  }
+
+  for (const redirect of accepted.values()) {
+    if (isExternal(redirect.to)) continue;
+
+    // Follow the redirect until it reaches a page, leaves the site or loops
+    const chain = [redirect.from];
+    let target = redirect.to;
+    while (
+      !isExternal(target) &&
+      resolved.has(getTargetRoute(target)) &&
+      !chain.includes(getTargetRoute(target))
+    ) {
+      chain.push(getTargetRoute(target));
+      target = resolved.get(getTargetRoute(target))!;
+    }
+
+    if (chain.length > 1) {
+      report(
+        redirect,
+        `leads through other redirects: ${[...chain, target].join(" -> ")}`
+      );
+    } else if (!routes.has(getTargetRoute(target))) {
+      report(redirect, `points to ${target}, which is not a page`);
+    }
+  }
+
+  return { redirects: resolved, diagnostics };
+}
+
+export function isExternal(url: string): boolean {
+  return /^([a-z][a-z0-9+.-]*:)?\/\//i.test(url);
+}
+
+// "/guide/#setup" -> "/guide"
+function getTargetRoute(to: string): string {
+  return normalizeRoute(to.split(/[?#]/)[0]);
+}
+
+function normalizeRoute(route: string): string {
+  return route.replace(/\/+$/, "") || "/";
+}
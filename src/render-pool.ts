@@ -0,0 +1,135 @@
+import * as path from "path";
+import { Worker } from "worker_threads";
+import { DocMeta, FrontMatterField, SiteConfig } from "./content/types";
+import { PageNavigation } from "./content/navigation";
+import { PageContext } from "./render";
+import { Theme } from "./theme";
+
+export interface DocumentTask {
+  type: "document";
+  filePath: string;
+  docsDir: string;
+  route: string;
+  content: string;
+  frontMatterSchema?: Record<string, FrontMatterField>;
+}
+
+export interface PageTask {
+  type: "page";
+  doc: DocMeta;
+  sidebarHtml: string;
+  navigation: PageNavigation;
+  config: SiteConfig;
+  theme: Theme;
+  context: PageContext;
+}
+
+// Rasterizes a social card's SVG into PNG data
+export interface CardTask {
+  type: "card";
+  svg: string;
+}
+
+export type RenderTask = DocumentTask | PageTask | CardTask;
+
+export type RenderResponse = { result: any } | { error: string };
+
+interface QueuedTask {
+  task: RenderTask;
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+}
+
+// Runs Markdoc parsing, page rendering and card rasterizing on a fixed set of worker threads.
+// Tasks are handed to whichever worker is free; callers keep the results in
+// their own order.
+export class RenderPool {
+  private workers: Worker[] = [];
+  private idle: Worker[] = [];
+  private queue: QueuedTask[] = [];
+  private running = new Map<Worker, QueuedTask>();
+
+  constructor(size: number, docsDir: string) {
+    for (let i = 0; i < size; i++) {
+      const worker = startWorker(docsDir);
+      worker.on("message", (response: RenderResponse) =>
+        this.finish(worker, response)
+      );
+      worker.on("error", (error) => this.fail(worker, error));
+      this.workers.push(worker);
+      this.idle.push(worker);
+    }
+  }
+
+  run(task: DocumentTask): Promise<DocMeta>;
+  run(task: PageTask): Promise<string>;
+  run(task: CardTask): Promise<Uint8Array>;
+  run(task: RenderTask): Promise<any> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ task, resolve, reject });
+      this.next();
+    });
+  }
+
+  async close(): Promise<void> {
+    await Promise.all(this.workers.map((worker) => worker.terminate()));
+    this.workers = [];
+    this.idle = [];
+  }
+
+  private next(): void {
+    while (this.idle.length > 0 && this.queue.length > 0) {
+      const worker = this.idle.pop()!;
+      const queued = this.queue.shift()!;
+      this.running.set(worker, queued);
+      worker.postMessage(queued.task);
+    }
+  }
+
+  private finish(worker: Worker, response: RenderResponse): void {
+    const queued = this.running.get(worker);
+    this.running.delete(worker);
+    this.idle.push(worker);
+
+    if ("error" in response) {
+      queued?.reject(new Error(response.error));
+    } else {
+      queued?.resolve(response.result);
+    }
+    this.next();
+  }
+
+  // A worker that crashed has exited, so its task and, once no workers are
+  // left, everything still queued can no longer complete
+  private fail(worker: Worker, error: Error): void {
+    this.running.get(worker)?.reject(error);
+    this.running.delete(worker);
+    this.workers = this.workers.filter((other) => other !== worker);
+
+    if (this.workers.length === 0) {
+      for (const queued of this.queue.splice(0)) {
+        queued.reject(error);
+      }
+    }
+  }
+}
+
+function startWorker(docsDir: string): Worker {
+  const script = path.join(
+    __dirname,
+    `render-worker${path.extname(__filename)}`
+  );
+  const workerData = { docsDir };
+
+  // Running from source, the worker has to load TypeScript through tsx
+  if (script.endsWith(".ts")) {
+    const register = require.resolve("tsx/cjs/api");
+    return new Worker(
+      `require(${JSON.stringify(register)}).register();
+       require(${JSON.stringify(script)});`,
+      { eval: true, workerData }
+    );
+  }
+
+  return new Worker(script, { workerData });
+}
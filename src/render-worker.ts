@@ -0,0 +1,46 @@
+import { parentPort, workerData } from "worker_threads";
+import { loadMarkdocSchema } from "./content/schema";
+import { parseDocument } from "./content/loader";
+import { renderPage } from "./render";
+import { renderSocialCard } from "./social-cards";
+import { RenderResponse, RenderTask } from "./render-pool";
+
+// Functions in the Markdoc schema cannot be sent between threads, so every
+// worker loads the schema file itself. The main thread reports its errors.
+const { schema } = loadMarkdocSchema(workerData.docsDir);
+
+parentPort!.on("message", async (task: RenderTask) => {
+  let response: RenderResponse;
+  try {
+    if (task.type === "document") {
+      response = {
+        result: parseDocument(
+          task.filePath,
+          task.docsDir,
+          task.route,
+          task.content,
+          { schema, frontMatterSchema: task.frontMatterSchema }
+        ),
+      };
+    } else if (task.type === "card") {
+      response = { result: await renderSocialCard(task.svg) };
+    } else {
+      response = {
+        result: await renderPage(
+          task.doc,
+          task.sidebarHtml,
+          task.navigation,
+          task.config,
+          task.theme,
+          task.context
+        ),
+      };
+    }
+  } catch (error) {
+    response = {
+      error:
+        error instanceof Error ? error.stack || error.message : String(error),
+    };
+  }
+  parentPort!.postMessage(response);
+});
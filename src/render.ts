@@ -0,0 +1,228 @@
+import { DocMeta, SidebarItem, SiteConfig } from "./content/types";
+import { PageNavigation } from "./content/navigation";
+import { buildTableOfContents } from "./content/toc";
+import { escapeHtml } from "./content/diagnostics";
+import { getUiStrings, UiStrings } from "./i18n";
+import { getLayoutTemplate, renderThemeTemplate, Theme } from "./theme";
+import { applyBasePath, getBasePath, getSiteUrl } from "./urls";
+import { getPageMetadata } from "./metadata";
+import { getSocialCardRoute, hasSocialCards } from "./social-cards";
+
+// Pages rendered for the dev server load the live reload client; apart from
+// that, both modes produce the same HTML
+export type RenderMode = "dev" | "build";
+
+// Shown around the document on a page
+export interface PageContext {
+  lang?: string;
+  strings?: UiStrings;
+  versions?: SwitcherLink[];
+  languages?: SwitcherLink[];
+  untranslated?: boolean;
+  searchIndex?: string;
+  // Route the canonical link points at, the page's own by default; null
+  // leaves it out
+  canonical?: string | null;
+}
+
+export interface SwitcherLink {
+  label: string;
+  href: string;
+  current: boolean;
+  lang?: string;
+}
+
+// Parts of a page that live updates replace without a reload
+export interface PageFragments {
+  title: string;
+  content: string;
+  sidebar: string;
+  toc: string;
+}
+
+// Templates link to routes and assets from the site root; the links are
+// pointed at `site.baseUrl` once the page is rendered
+export async function renderPage(
+  doc: DocMeta,
+  sidebarHtml: string,
+  navigation: PageNavigation,
+  config: SiteConfig,
+  theme: Theme,
+  context: PageContext = {},
+  mode: RenderMode = "build"
+): Promise<string> {
+  const html = await renderThemeTemplate(
+    theme,
+    "page",
+    getPageData(doc, sidebarHtml, navigation, config, theme, context, mode)
+  );
+  return applyBasePath(html, getBasePath(config));
+}
+
+// Rendered from the same data as the full page, so a live update shows what
+// a reload would
+export async function renderPageFragments(
+  doc: DocMeta,
+  sidebarHtml: string,
+  navigation: PageNavigation,
+  config: SiteConfig,
+  theme: Theme,
+  context: PageContext = {}
+): Promise<PageFragments> {
+  const data = getPageData(
+    doc,
+    sidebarHtml,
+    navigation,
+    config,
+    theme,
+    context,
+    "dev"
+  );
+  const basePath = getBasePath(config);
+  return {
+    title: `${data.siteTitle} — ${data.pageTitle}`,
+    content: applyBasePath(
+      await renderThemeTemplate(theme, "content", {
+        ...data,
+        content: data.html,
+      }),
+      basePath
+    ),
+    sidebar: applyBasePath(sidebarHtml, basePath),
+    toc: await renderThemeTemplate(theme, "toc", data),
+  };
+}
+
+// not-found.ejs in the default layout, for routes without a page
+export async function renderNotFoundPage(
+  sidebarHtml: string,
+  config: SiteConfig,
+  theme: Theme,
+  context: PageContext = {},
+  mode: RenderMode = "build"
+): Promise<string> {
+  const strings = context.strings || getUiStrings();
+  const doc: DocMeta = {
+    path: "",
+    route: "/404",
+    title: strings.notFound,
+    headings: [],
+    // Kept out of search engines like any missing page
+    frontMatter: { noindex: true },
+    links: [],
+    html: await renderThemeTemplate(theme, "not-found", { strings }),
+    diagnostics: [],
+  };
+  return renderPage(
+    doc,
+    sidebarHtml,
+    { breadcrumbs: [] },
+    config,
+    theme,
+    { ...context, canonical: null },
+    mode
+  );
+}
+
+// The variables page.ejs and the layouts are rendered with
+function getPageData(
+  doc: DocMeta,
+  sidebarHtml: string,
+  navigation: PageNavigation,
+  config: SiteConfig,
+  theme: Theme,
+  context: PageContext,
+  mode: RenderMode
+) {
+  const siteUrl = getSiteUrl(config);
+  const canonical =
+    context.canonical === undefined ? doc.route : context.canonical;
+  const canonicalUrl = siteUrl && canonical !== null ? siteUrl + canonical : "";
+  const lang = context.lang || "en";
+  const socialCard =
+    hasSocialCards(config) && canonical !== null
+      ? getSocialCardRoute(canonical)
+      : undefined;
+  return {
+    layout: getLayoutTemplate(theme, doc),
+    siteTitle: config.site.title,
+    pageTitle: doc.title,
+    sidebar: sidebarHtml,
+    html: doc.html,
+    prev: navigation.prev,
+    next: navigation.next,
+    breadcrumbs: navigation.breadcrumbs,
+    toc: buildTableOfContents(doc, config.toc),
+    lang,
+    strings: context.strings || getUiStrings(),
+    versions: context.versions || [],
+    languages: context.languages || [],
+    untranslated: context.untranslated || false,
+    searchIndex: context.searchIndex || "/search-index.json",
+    canonicalUrl,
+    noindex: doc.frontMatter.noindex === true,
+    meta: getPageMetadata(
+      doc,
+      navigation,
+      config,
+      canonicalUrl,
+      lang,
+      socialCard
+    ),
+    isDev: mode === "dev",
+  };
+}
+
+export function renderSidebar(sidebarItems: SidebarItem[]): string {
+  return renderSidebarItems(sidebarItems, 0);
+}
+
+function renderSidebarItems(items: SidebarItem[], depth: number): string {
+  if (items.length === 0) return "";
+
+  // Calculate indentation for clean HTML output
+  const indent = "  ".repeat(depth);
+  let html = `${indent}<ul>\n`;
+
+  for (const item of items) {
+    if (item.separator) {
+      html += `${indent}  <li class="sidebar-separator" role="separator"></li>\n`;
+      continue;
+    }
+
+    html += `${indent}  <li>\n`;
+
+    // Titles come from front matter and labels, icons and links from the
+    // config, so all of them are escaped. Sections without an index page
+    // render as a plain label.
+    const icon = item.icon
+      ? `<span class="sidebar-icon">${escapeHtml(item.icon)}</span> `
+      : "";
+    const title = icon + escapeHtml(item.title);
+    let label = `<span class="sidebar-link sidebar-label">${title}</span>`;
+    if (item.href) {
+      label = `<a href="${escapeHtml(item.href)}" class="sidebar-link sidebar-external" target="_blank" rel="noopener noreferrer">${title}</a>`;
+    } else if (item.route) {
+      label = `<a href="${escapeHtml(item.route)}" class="sidebar-link">${title}</a>`;
+    }
+
+    // Handle nested children recursively inside a collapsible section
+    if (item.children && item.children.length > 0) {
+      html += `${indent}    <details class="sidebar-section"${
+        item.collapsed ? "" : " open"
+      }>\n`;
+      html += `${indent}      <summary>${label}</summary>\n`;
+      html += `${indent}      <div class="children">\n`;
+      html += renderSidebarItems(item.children, depth + 3); // Recurse with increased depth
+      html += `${indent}      </div>\n`;
+      html += `${indent}    </details>\n`;
+    } else {
+      html += `${indent}    ${label}\n`;
+    }
+
+    html += `${indent}  </li>\n`;
+  }
+
+  html += `${indent}</ul>\n`;
+  return html;
+}
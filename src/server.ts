@@ -1,17 +1,86 @@
 import express from "express";
 import * as path from "path";
 import * as chokidar from "chokidar";
-import { WebSocketServer } from "ws";
+import { WebSocket, WebSocketServer } from "ws";
 import { createServer } from "http";
-import ejs from "ejs";
-import { ContentIndex, DocMeta, SidebarItem } from "./content/types";
+import { Diagnostic, DocMeta, Heading } from "./content/types";
 import {
-  buildContentIndex,
-  updateDocumentInIndex,
-  removeDocumentFromIndex,
+  isDocumentFile,
+  isCategoryFile,
+  DocumentCache,
+  LoaderOptions,
 } from "./content/loader";
-import { generateSidebar } from "./content/sidebar";
-import { loadConfig } from "./config";
+import {
+  MarkdocSchema,
+  SCHEMA_FILES,
+  loadMarkdocSchema,
+} from "./content/schema";
+import { PageNavigation } from "./content/navigation";
+import { buildTableOfContents } from "./content/toc";
+import { SearchEntry } from "./content/search";
+import {
+  countErrors,
+  errorToDiagnostic,
+  printDiagnostics,
+  renderDiagnosticsOverlay,
+} from "./content/diagnostics";
+import { CONFIG_FILES, findConfigFile, readConfig } from "./config";
+import { DependencyGraph } from "./dependencies";
+import {
+  BUILTIN_PUBLIC_DIR,
+  BUILTIN_TEMPLATE_DIR,
+  DEFAULT_THEME,
+  getLayoutTemplate,
+  resolveTheme,
+  Theme,
+  THEME_DIR,
+} from "./theme";
+import {
+  PageContext,
+  renderNotFoundPage,
+  renderPage,
+  renderPageFragments,
+} from "./render";
+import { getBasePath } from "./urls";
+import {
+  getSocialCardData,
+  getSocialCardPage,
+  hasSocialCards,
+  renderSocialCard,
+  renderSocialCardSvg,
+} from "./social-cards";
+import { isExternal } from "./redirects";
+import { resolveVersions } from "./versions";
+import {
+  getDocumentCacheKey,
+  getLatestRedirects,
+  getSectionSearchIndex,
+  loadSiteSections,
+  prepareNotFoundPage,
+  prepareSectionPage,
+  SiteSection,
+} from "./build";
+
+// fileErrors keys for problems resolving the theme, and for problems with the
+// site as a whole such as broken redirects or sidebars
+const THEME_ERRORS = "theme";
+const SITE_ERRORS = "site";
+
+interface PreparedPage {
+  doc: DocMeta;
+  sidebar: string;
+  navigation: PageNavigation;
+  context: PageContext;
+  toc: Heading[];
+}
+
+// Pushed to live reload clients; undefined fields are unchanged
+interface FragmentUpdate {
+  title: string;
+  content: string;
+  sidebar?: string;
+  toc?: string;
+}
 
 export interface ServerOptions {
   port: number;
@@ -23,9 +92,37 @@ export class MarkrealmServer {
   private server: any;
   private wss!: WebSocketServer;
   private watcher!: chokidar.FSWatcher;
-  private contentIndex!: ContentIndex;
+  // Every version and locale of the site, served under their prefixes as in
+  // the static build
+  private sections: SiteSection[] = [];
+  // Versions are resolved once per config, since git refs are snapshotted
+  private versions!: ReturnType<typeof resolveVersions>;
+  // Keeps unchanged documents parsed across reloads
+  private documentCache: DocumentCache = { key: "", documents: {} };
   private config: any;
+  private schema: MarkdocSchema = {};
+  // Built on first request per section prefix and discarded whenever content
+  // changes
+  private searchIndexes = new Map<string, SearchEntry[]>();
+  private graph!: DependencyGraph;
+  // Route each live reload client is viewing
+  private clientRoutes = new Map<WebSocket, string>();
+  // Layout, sidebar HTML and table of contents each route was last
+  // rendered with
+  private renderedFragments = new Map<
+    string,
+    { layout: string; sidebar: string; toc: string }
+  >();
+  // Errors not tied to a single page, such as an unparsable config file or a
+  // failure while handling a file change, keyed by the file that caused
+  // them. They are shown on every page until the file changes again.
+  private fileErrors = new Map<string, Diagnostic[]>();
+  // Template errors from the last render of each route
+  private renderErrors = new Map<string, Diagnostic>();
   private docsDir: string;
+  private theme: Theme = DEFAULT_THEME;
+  // Aliases, configured redirects and /latest/ redirects by output route
+  private redirects = new Map<string, string>();
 
   constructor(private options: ServerOptions) {
     this.app = express();
@@ -35,115 +132,447 @@ export class MarkrealmServer {
 
   private setupApp(): void {
     this.app.set("view engine", "ejs");
-    this.app.set("views", path.join(__dirname, "web", "template"));
+    this.app.set("views", BUILTIN_TEMPLATE_DIR);
+    this.app.use(this.stripBasePath.bind(this));
+    this.app.use(this.serveThemeAssets.bind(this));
     this.app.use(
       "/styles.css",
-      express.static(path.join(__dirname, "web", "public", "styles.css"))
+      express.static(path.join(BUILTIN_PUBLIC_DIR, "styles.css"))
+    );
+    this.app.use(
+      "/components.js",
+      express.static(path.join(BUILTIN_PUBLIC_DIR, "components.js"))
+    );
+    this.app.use(
+      "/toc.js",
+      express.static(path.join(BUILTIN_PUBLIC_DIR, "toc.js"))
     );
     this.app.use(
       "/reload-client.js",
-      express.static(path.join(__dirname, "web", "public", "reload-client.js"))
+      express.static(path.join(BUILTIN_PUBLIC_DIR, "reload-client.js"))
+    );
+    this.app.use(
+      "/search.js",
+      express.static(path.join(BUILTIN_PUBLIC_DIR, "search.js"))
     );
+    this.app.get(/\/search-index\.json$/, (req, res, next) => {
+      const prefix = req.path.slice(0, -"/search-index.json".length);
+      const section = this.sections.find(
+        (section) => section.prefix === prefix
+      );
+      if (!section) return next();
+      if (!this.searchIndexes.has(prefix)) {
+        this.searchIndexes.set(
+          prefix,
+          getSectionSearchIndex(section, this.config)
+        );
+      }
+      res.json(this.searchIndexes.get(prefix));
+    });
+    this.app.get("/og/*", this.serveSocialCard.bind(this));
     this.app.get("/*", this.handleRoute.bind(this));
   }
 
+  // Serves the site under the path of `site.baseUrl`, as it is deployed.
+  // Anything outside of it gets the 404 page, so links that miss the base
+  // path show up in development.
+  private stripBasePath(
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+  ): void {
+    const basePath = getBasePath(this.config);
+    if (!basePath) return next();
+
+    if (req.path === basePath || req.path.startsWith(basePath + "/")) {
+      const rest = req.url.slice(basePath.length);
+      req.url = rest.startsWith("/") ? rest : `/${rest}`;
+      return next();
+    }
+    if (req.path === "/") {
+      res.redirect(`${basePath}/`);
+      return;
+    }
+    this.renderNotFound()
+      .then((html) => res.status(404).send(html))
+      .catch(next);
+  }
+
+  // Serves a file from the theme's public folders, which take precedence over
+  // the built-in assets
+  private serveThemeAssets(
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+  ): void {
+    const dirs = this.theme.publicDirs;
+    const serve = (i: number): void => {
+      if (i === dirs.length) return next();
+      express.static(dirs[i])(req, res, () => serve(i + 1));
+    };
+    serve(0);
+  }
+
+  private async serveSocialCard(
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+  ): Promise<void> {
+    try {
+      const png = await this.renderCard(req.path);
+      if (!png) return next();
+      res.type("png").send(png);
+    } catch (error) {
+      console.error(`Failed to render ${req.path}:`, error);
+      res.status(500).send(String(error));
+    }
+  }
+
+  // The social card at `cardRoute`, rendered on request, or null when social
+  // cards are off or the route has no page with a card
+  public async renderCard(cardRoute: string): Promise<Buffer | null> {
+    const route = getSocialCardPage(cardRoute);
+    const page = route !== undefined && this.preparePage(route);
+    if (!page || !hasSocialCards(this.config)) return null;
+    const svg = await renderSocialCardSvg(
+      getSocialCardData(page.doc, page.navigation, this.config),
+      this.config,
+      this.theme,
+      this.docsDir
+    );
+    return renderSocialCard(svg);
+  }
+
   private async handleRoute(
     req: express.Request,
     res: express.Response
   ): Promise<void> {
-    const route = req.path === "/" ? "/" : req.path;
-
-    if (/\.(yaml|yml|json|config)/.test(route)) {
-      res
-        .status(404)
-        .send(
-          `<h1>404 - Page Not Found</h1><p>The page <code>${route}</code> could not be found.</p><a href="/">← Back to Home</a>`
-        );
+    const route = normalizeRoute(req.path);
+    const redirect = this.getRedirect(route);
+    if (redirect) {
+      res.redirect(301, redirect);
       return;
     }
-
-    const doc = this.contentIndex.byRoute.get(route);
-    if (!doc) {
+    try {
+      const { status, html } = await this.renderRoute(route);
+      res.status(status).send(html);
+    } catch (error) {
+      console.error(`Failed to render ${route}:`, error);
+      this.renderErrors.set(route, templateErrorToDiagnostic(error));
       res
-        .status(404)
+        .status(500)
         .send(
-          `<h1>404 - Page Not Found</h1><p>The page <code>${route}</code> could not be found.</p><a href="/">← Back to Home</a>`
+          renderErrorPage(
+            this.getErrorOverlay(route) || "",
+            getBasePath(this.config)
+          )
         );
-      return;
     }
+  }
 
-    const sidebar = this.renderSidebar(
-      generateSidebar(this.contentIndex, this.config.sidebar.order)
-    );
-    const html = await this.renderPage(doc, sidebar, true);
-    res.send(html);
-  }
-
-  private async renderPage(
-    doc: DocMeta,
-    sidebar: string,
-    isDev: boolean = false
-  ): Promise<string> {
-    return new Promise((resolve, reject) => {
-      ejs.renderFile(
-        path.join(__dirname, "web", "template", "page.ejs"),
-        {
-          siteTitle: this.config.site.title,
-          pageTitle: doc.title,
-          sidebar,
-          html: doc.html,
-          isDev,
-        },
-        (err, html) => {
-          if (err) {
-            reject(err);
-          } else {
-            resolve(html);
-          }
-        }
-      );
+  // Where a redirect or page alias sends visitors of `route`, if anywhere
+  public getRedirect(route: string): string | undefined {
+    const target = this.redirects.get(route);
+    if (target === undefined) return undefined;
+    return isExternal(target) ? target : getBasePath(this.config) + target;
+  }
+
+  // The page served at `route`, or the 404 page when there is none, rendered
+  // the same way as in the static build
+  public async renderRoute(
+    route: string
+  ): Promise<{ status: number; html: string }> {
+    const page = /\.(yaml|yml|json|config)/.test(route)
+      ? null
+      : this.preparePage(route);
+    if (!page) {
+      return { status: 404, html: await this.renderNotFound() };
+    }
+
+    const html = await renderPage(
+      page.doc,
+      page.sidebar,
+      page.navigation,
+      this.config,
+      this.theme,
+      page.context,
+      "dev"
+    );
+    this.renderErrors.delete(route);
+    this.renderedFragments.set(route, {
+      layout: getLayoutTemplate(this.theme, page.doc),
+      sidebar: page.sidebar,
+      toc: JSON.stringify(page.toc),
     });
+    return { status: 200, html };
+  }
+
+  private renderNotFound(): Promise<string> {
+    const { sidebarHtml, context } = prepareNotFoundPage(this.sections);
+    return renderNotFoundPage(
+      sidebarHtml,
+      this.config,
+      this.theme,
+      context,
+      "dev"
+    );
   }
 
-  private renderSidebar(sidebarItems: SidebarItem[]): string {
-    if (sidebarItems.length === 0) return "";
+  // Everything wrong with a route: site-wide errors, the page's own
+  // diagnostics when it has errors, and its last template error
+  private getErrorOverlay(route: string): string | undefined {
+    const doc = this.findPage(route)?.doc;
+    const renderError = this.renderErrors.get(route);
+    const diagnostics = [
+      ...Array.from(this.fileErrors.values()).flat(),
+      ...(doc && countErrors(doc.diagnostics) > 0 ? doc.diagnostics : []),
+      ...(renderError ? [renderError] : []),
+    ];
 
-    let html = "<ul>\n";
-    for (const item of sidebarItems) {
-      html += `  <li><a href="${item.route}" class="sidebar-link">${item.title}</a>`;
-      if (item.children?.length) {
-        html += "<ul>";
-        for (const child of item.children) {
-          html += `<li><a href="${child.route}" class="sidebar-link">${child.title}</a></li>`;
-        }
-        html += "</ul>";
+    return countErrors(diagnostics) > 0
+      ? renderDiagnosticsOverlay(diagnostics, this.docsDir)
+      : undefined;
+  }
+
+  // The section and page served at an output route such as "/v2/de/guide".
+  // The longest matching prefix wins, so "/de" is not mistaken for a page of
+  // the default locale.
+  private findPage(
+    outputRoute: string
+  ): { section: SiteSection; route: string; doc: DocMeta } | undefined {
+    const matches = this.sections
+      .filter(
+        (section) =>
+          outputRoute === section.prefix ||
+          outputRoute.startsWith(section.prefix + "/")
+      )
+      .sort((a, b) => b.prefix.length - a.prefix.length);
+    for (const section of matches) {
+      const route = outputRoute.slice(section.prefix.length) || "/";
+      const doc = section.index.byRoute.get(route);
+      if (doc) return { section, route, doc };
+    }
+    return undefined;
+  }
+
+  private preparePage(outputRoute: string): PreparedPage | null {
+    const found = this.findPage(outputRoute);
+    if (!found) return null;
+
+    const { doc, sidebarHtml, navigation, context } = prepareSectionPage(
+      this.sections,
+      found.section,
+      found.route
+    )!;
+    return {
+      doc,
+      sidebar: sidebarHtml,
+      navigation,
+      context,
+      toc: buildTableOfContents(doc, this.config.toc),
+    };
+  }
+
+  // Renders the parts of a page that live updates replace. The sidebar and
+  // table of contents are left out when they match what the route last showed.
+  private async renderFragments(route: string): Promise<FragmentUpdate | null> {
+    const page = this.preparePage(route);
+    if (!page) return null;
+
+    const layout = getLayoutTemplate(this.theme, page.doc);
+    const toc = JSON.stringify(page.toc);
+    const previous = this.renderedFragments.get(route);
+    // A new layout changes the whole page, so the client reloads instead
+    if (previous && previous.layout !== layout) {
+      this.renderedFragments.delete(route);
+      return null;
+    }
+    this.renderedFragments.set(route, { layout, sidebar: page.sidebar, toc });
+
+    const fragments = await renderPageFragments(
+      page.doc,
+      page.sidebar,
+      page.navigation,
+      this.config,
+      this.theme,
+      page.context
+    );
+    return {
+      title: fragments.title,
+      content: fragments.content,
+      sidebar:
+        previous?.sidebar === page.sidebar ? undefined : fragments.sidebar,
+      toc: previous?.toc === toc ? undefined : fragments.toc,
+    };
+  }
+
+  private loaderOptions(): LoaderOptions {
+    return {
+      ignore: this.config.ignore,
+      partials: this.config.partials,
+      schema: this.schema,
+      frontMatterSchema: this.config.frontmatter,
+    };
+  }
+
+  private configFiles(): string[] {
+    return CONFIG_FILES.map((file) => path.join(this.docsDir, file));
+  }
+
+  // Reloads every section through the document cache, so only changed
+  // documents are parsed again. Problems beyond a single page, such as broken
+  // redirects, are shown on every page.
+  private async reloadContent(): Promise<Diagnostic[]> {
+    const { schema, diagnostics: schemaDiagnostics } = loadMarkdocSchema(
+      this.docsDir
+    );
+    this.schema = schema;
+    this.documentCache.key = getDocumentCacheKey(this.docsDir, this.config);
+    const {
+      sections,
+      redirects,
+      diagnostics: contentDiagnostics,
+    } = await loadSiteSections(
+      this.docsDir,
+      this.config,
+      { ...this.loaderOptions(), cache: this.documentCache },
+      this.versions
+    );
+    const diagnostics = [...schemaDiagnostics, ...contentDiagnostics];
+    this.sections = sections;
+    this.redirects = new Map([...getLatestRedirects(sections), ...redirects]);
+    this.searchIndexes.clear();
+
+    for (const filePath of Object.keys(this.documentCache.documents)) {
+      if (!sections.some((section) => section.index.byPath.has(filePath))) {
+        delete this.documentCache.documents[filePath];
+      }
+    }
+
+    const pageDiagnostics = new Set(
+      sections.flatMap((section) =>
+        Array.from(section.index.byPath.values()).flatMap(
+          (doc) => doc.diagnostics
+        )
+      )
+    );
+    const siteDiagnostics = diagnostics.filter(
+      (diagnostic) => !pageDiagnostics.has(diagnostic)
+    );
+    if (countErrors(siteDiagnostics) > 0) {
+      this.fileErrors.set(SITE_ERRORS, siteDiagnostics);
+    } else {
+      this.fileErrors.delete(SITE_ERRORS);
+    }
+    return diagnostics;
+  }
+
+  // Snapshots the git refs of versioned sites, so only on load and when the
+  // config changes
+  private resolveVersions(): void {
+    this.versions = resolveVersions(
+      this.config,
+      this.docsDir,
+      findConfigFile(this.docsDir) || ""
+    );
+  }
+
+  // Pages depend on their output routes, fallback pages included
+  private updateDependencyGraph(): void {
+    this.graph = new DependencyGraph([
+      ...this.configFiles(),
+      ...SCHEMA_FILES.map((file) => path.join(this.docsDir, file)),
+      ...this.templateDirs(),
+    ]);
+    for (const section of this.sections) {
+      for (const doc of section.index.byRoute.values()) {
+        this.graph.addPage(section.prefix + doc.route, [
+          doc.path,
+          ...(doc.dependencies || []),
+        ]);
       }
-      html += "</li>\n";
     }
-    html += "</ul>\n";
-    return html;
+  }
+
+  // The output route of the page loaded from `filePath`, if any
+  private getSourceRoute(filePath: string): string | undefined {
+    for (const section of this.sections) {
+      const doc = section.index.byPath.get(filePath);
+      if (doc) return section.prefix + doc.route;
+    }
+    return undefined;
+  }
+
+  // The docs theme folder is watched whether or not it exists yet
+  private templateDirs(): string[] {
+    return [path.join(this.docsDir, THEME_DIR), ...this.theme.templateDirs];
+  }
+
+  // Resolves the theme named by the current config. A missing theme package
+  // is shown on every page until it resolves.
+  private updateTheme(): Diagnostic[] {
+    const { theme, diagnostics } = resolveTheme(
+      this.docsDir,
+      this.config,
+      findConfigFile(this.docsDir) || ""
+    );
+    this.theme = theme;
+    if (diagnostics.length > 0) {
+      this.fileErrors.set(THEME_ERRORS, diagnostics);
+    } else {
+      this.fileErrors.delete(THEME_ERRORS);
+    }
+    return diagnostics;
+  }
+
+  // Sidebars and page titles feed the navigation of every page, so a change
+  // to either means every page is affected
+  private navigationSignature(): string {
+    return JSON.stringify(
+      this.sections.map((section) => [
+        section.prefix,
+        section.sidebars,
+        Array.from(section.index.byRoute.values())
+          .map((doc) => `${doc.route}\t${doc.title}`)
+          .sort(),
+      ])
+    );
   }
 
   private setupFileWatcher(): void {
-    this.watcher = chokidar.watch(this.docsDir, {
-      ignored: this.config.ignore,
-      persistent: true,
-      ignoreInitial: true,
-    });
+    this.watcher = chokidar.watch(
+      [
+        this.docsDir,
+        BUILTIN_PUBLIC_DIR,
+        // Theme folders in the docs directory are already watched with it
+        ...[
+          ...this.theme.templateDirs,
+          ...this.config.versions
+            .filter((version: { dir?: string }) => version.dir !== undefined)
+            .map((version: { dir: string }) =>
+              path.resolve(this.docsDir, version.dir)
+            ),
+        ].filter((dir) => !dir.startsWith(this.docsDir + path.sep)),
+      ],
+      {
+        ignored: this.config.ignore,
+        persistent: true,
+        ignoreInitial: true,
+      }
+    );
 
-    const handleFileEvent = (filePath: string, eventType: string) => {
+    // A change that fails to process is shown on every page until the file
+    // changes again, instead of crashing the server
+    const handleFileEvent = async (filePath: string, eventType: string) => {
       console.log(`File ${eventType}: ${filePath}`);
-      if (eventType === "removed") {
-        removeDocumentFromIndex(this.contentIndex, filePath);
-      } else {
-        updateDocumentInIndex(
-          this.contentIndex,
-          filePath,
-          this.docsDir,
-          this.config.ignore
-        );
+      const hadErrors = this.fileErrors.delete(filePath);
+      try {
+        await this.applyFileChange(filePath, hadErrors);
+      } catch (error) {
+        console.error(`Failed to process ${filePath}:`, error);
+        this.fileErrors.set(filePath, [errorToDiagnostic(error, filePath)]);
+        await this.pushUpdates(null);
       }
-      this.broadcastReload();
     };
 
     this.watcher.on("change", (filePath) =>
@@ -155,17 +584,151 @@ export class MarkrealmServer {
     );
   }
 
-  private broadcastReload(): void {
-    if (this.wss) {
-      const message = JSON.stringify({ type: "reload", timestamp: Date.now() });
-      console.log(`Broadcasting reload to ${this.wss.clients.size} clients`);
+  // Updates the server state after a watched file changed and pushes the
+  // result to the clients it affects. `updateAll` also updates clients that
+  // are otherwise unaffected, to clear an error shown for this file.
+  private async applyFileChange(
+    filePath: string,
+    updateAll: boolean
+  ): Promise<void> {
+    const publicDir = [...this.theme.publicDirs, BUILTIN_PUBLIC_DIR].find(
+      (dir) => filePath.startsWith(dir + path.sep)
+    );
+    if (publicDir) {
+      // Stylesheets are swapped in place; scripts need a fresh page
+      const href = path.relative(publicDir, filePath).split(path.sep).join("/");
+      this.broadcast(
+        filePath.endsWith(".css")
+          ? { type: "css", href: `/${href}` }
+          : { type: "reload" }
+      );
+      return;
+    }
 
-      this.wss.clients.forEach((client) => {
-        if (client.readyState === client.OPEN) {
-          client.send(message);
+    const signature = this.navigationSignature();
+    // Routes to update; null updates every page
+    let affected: string[] | null = [];
+    let changedRoute: string | undefined;
+    // Config and template changes reach beyond the fragments clients can
+    // swap in place, such as the page head and site header
+    let fullReload = false;
+
+    if (this.graph.isShared(filePath)) {
+      if (this.configFiles().includes(filePath)) {
+        const { config, diagnostics } = readConfig(this.docsDir);
+        if (diagnostics.length > 0) {
+          // Keep the last working config until the file is fixed
+          this.fileErrors.set(filePath, diagnostics);
+        } else {
+          this.config = config;
+          this.updateTheme();
+          this.resolveVersions();
+          fullReload = true;
         }
-      });
+      }
+      if (
+        this.templateDirs().some((dir) => filePath.startsWith(dir + path.sep))
+      ) {
+        // Adding or removing the theme folder changes the lookup order
+        this.updateTheme();
+        fullReload = true;
+      } else {
+        await this.reloadContent();
+      }
+      affected = null;
+    } else if (isCategoryFile(filePath) || isDocumentFile(filePath)) {
+      // Affected are the pages built from the file before and after the
+      // change: its own page in every locale it shows up in, and the pages
+      // including it when it is a partial
+      const oldRoute = this.getSourceRoute(filePath);
+      const before = this.graph.getDependents(filePath);
+      await this.reloadContent();
+      this.updateDependencyGraph();
+      affected = Array.from(
+        new Set([...before, ...this.graph.getDependents(filePath)])
+      );
+      changedRoute = this.getSourceRoute(filePath) || oldRoute;
+    } else {
+      return;
+    }
+
+    if (this.navigationSignature() !== signature) {
+      affected = null;
+    }
+    this.updateDependencyGraph();
+
+    if (fullReload) {
+      this.renderedFragments.clear();
+      this.renderErrors.clear();
+      this.broadcast({ type: "reload" });
+    } else {
+      await this.pushUpdates(updateAll ? null : affected, changedRoute);
+    }
+  }
+
+  // Sends freshly rendered fragments to clients viewing one of `routes`, or
+  // every client when `routes` is null. Clients whose page no longer exists
+  // reload instead; `changedRoute` is the page whose source changed, if any.
+  private async pushUpdates(
+    routes: string[] | null,
+    changedRoute?: string
+  ): Promise<void> {
+    if (!this.wss) return;
+
+    const clientsByRoute = new Map<string, WebSocket[]>();
+    this.wss.clients.forEach((client) => {
+      const route = this.clientRoutes.get(client);
+      if (client.readyState !== client.OPEN || !route) return;
+      if (routes !== null && !routes.includes(route)) return;
+      clientsByRoute.set(route, [...(clientsByRoute.get(route) || []), client]);
+    });
+
+    let count = 0;
+    for (const [route, clients] of clientsByRoute) {
+      let message: string;
+      try {
+        const fragments = await this.renderFragments(route);
+        this.renderErrors.delete(route);
+        // Updates without an overlay clear the one the client shows
+        message = JSON.stringify(
+          fragments
+            ? {
+                type: "update",
+                route,
+                ...fragments,
+                overlay: this.getErrorOverlay(route),
+                timestamp: Date.now(),
+              }
+            : { type: "reload", route: changedRoute, timestamp: Date.now() }
+        );
+      } catch (error) {
+        console.error(`Failed to render ${route}:`, error);
+        this.renderErrors.set(route, templateErrorToDiagnostic(error));
+        message = JSON.stringify({
+          type: "error",
+          route,
+          overlay: this.getErrorOverlay(route),
+          timestamp: Date.now(),
+        });
+      }
+      clients.forEach((client) => client.send(message));
+      count += clients.length;
     }
+    console.log(`Pushed updates to ${count} clients`);
+  }
+
+  private broadcast(message: Record<string, any>): void {
+    if (!this.wss) return;
+
+    const data = JSON.stringify({ ...message, timestamp: Date.now() });
+    console.log(
+      `Broadcasting ${message.type} to ${this.wss.clients.size} clients`
+    );
+    this.wss.clients.forEach((client) => {
+      if (client.readyState === client.OPEN) {
+        client.send(data);
+      }
+    });
   }
 
   private setupWebSocket(): void {
@@ -174,34 +737,61 @@ export class MarkrealmServer {
       path: "/_livereload",
     });
 
-    this.wss.on("connection", (ws) => {
+    this.wss.on("connection", (ws, req) => {
+      const url = new URL(req.url || "", "http://localhost");
+      const route = normalizeRoute(url.searchParams.get("route"));
+      this.clientRoutes.set(ws, route);
       console.log("LiveReload client connected");
       ws.send(
         JSON.stringify({ type: "connected", message: "LiveReload ready" })
       );
-      ws.on("close", () => console.log("LiveReload client disconnected"));
+      const overlay = this.getErrorOverlay(route);
+      if (overlay) {
+        ws.send(JSON.stringify({ type: "error", route, overlay }));
+      }
+      ws.on("close", () => {
+        this.clientRoutes.delete(ws);
+        console.log("LiveReload client disconnected");
+      });
     });
 
     console.log("WebSocket server setup on path: /_livereload");
   }
 
   public async start(): Promise<void> {
-    this.config = loadConfig(this.docsDir);
-    this.contentIndex = await buildContentIndex(
-      this.docsDir,
-      this.config.ignore
-    );
+    await this.load();
 
     this.server = createServer(this.app);
     this.setupWebSocket();
     this.setupFileWatcher();
 
     this.server.listen(this.options.port, () => {
-      console.log(`Server running at http://localhost:${this.options.port}`);
-      console.log(`Indexed ${this.contentIndex.byRoute.size} documents`);
+      console.log(
+        `Server running at http://localhost:${this.options.port}${getBasePath(
+          this.config
+        )}/`
+      );
     });
   }
 
+  // Reads the config, theme and content, reporting their diagnostics
+  public async load(): Promise<void> {
+    const { config, diagnostics: configDiagnostics } = readConfig(this.docsDir);
+    this.config = config;
+    if (configDiagnostics.length > 0) {
+      this.fileErrors.set(configDiagnostics[0].file, configDiagnostics);
+    }
+    const themeDiagnostics = this.updateTheme();
+    this.resolveVersions();
+    const contentDiagnostics = await this.reloadContent();
+    this.updateDependencyGraph();
+
+    printDiagnostics(
+      [...configDiagnostics, ...themeDiagnostics, ...contentDiagnostics],
+      this.docsDir
+    );
+  }
+
   public stop(): void {
     if (this.watcher) {
       this.watcher.close();
@@ -214,3 +804,35 @@ export class MarkrealmServer {
     }
   }
 }
+
+// "/guide/" -> "/guide"
+function normalizeRoute(route: string | null): string {
+  return (route || "").replace(/\/+$/, "") || "/";
+}
+
+// EJS errors name the template that failed and include its own excerpt
+function templateErrorToDiagnostic(error: unknown): Diagnostic {
+  const file = (error as { path?: string }).path;
+  return errorToDiagnostic(
+    error,
+    file || path.join(BUILTIN_TEMPLATE_DIR, "page.ejs")
+  );
+}
+
+// Shown when rendering the page template fails. The live reload client keeps
+// the overlay up to date and loads the real page once the error is fixed.
+function renderErrorPage(overlay: string, basePath: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <title>Render error</title>
+    <link rel="stylesheet" href="${basePath}/styles.css" />
+    <script src="${basePath}/reload-client.js"></script>
+  </head>
+  <body>
+    <div id="markrealm-error-overlay" class="error-overlay">${overlay}</div>
+  </body>
+</html>
+`;
+}
@@ -0,0 +1,105 @@
+import * as fs from "fs";
+import * as path from "path";
+import { execFileSync } from "child_process";
+
+export interface SitemapEntry {
+  url: string;
+  lastmod?: Date;
+}
+
+// When each file last changed: the date of the last commit that touched it,
+// or its modification time for files git doesn't know about. `dirs` limits
+// the git history that is read.
+export function getLastModified(
+  files: string[],
+  dirs: string[]
+): Map<string, Date> {
+  const committed = readCommitDates(dirs);
+  const dates = new Map<string, Date>();
+  for (const file of files) {
+    const date = committed.get(realPath(file));
+    if (date) {
+      dates.set(file, date);
+    } else if (fs.existsSync(file)) {
+      dates.set(file, fs.statSync(file).mtime);
+    }
+  }
+  return dates;
+}
+
+export function renderSitemap(entries: SitemapEntry[]): string {
+  const urls = entries.map((entry) => {
+    const lastmod = entry.lastmod
+      ? `\n    <lastmod>${entry.lastmod.toISOString()}</lastmod>`
+      : "";
+    return `  <url>\n    <loc>${escapeXml(entry.url)}</loc>${lastmod}\n  </url>\n`;
+  });
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${urls.join("")}</urlset>
+`;
+}
+
+export function renderRobotsTxt(sitemapUrl?: string): string {
+  const lines = ["User-agent: *", "Allow: /"];
+  if (sitemapUrl) {
+    lines.push("", `Sitemap: ${sitemapUrl}`);
+  }
+  return lines.join("\n") + "\n";
+}
+
+// Reads the history of `dirs` once; the first date listed for a file is its
+// latest commit. Outside a git checkout nothing is found.
+function readCommitDates(dirs: string[]): Map<string, Date> {
+  const dates = new Map<string, Date>();
+  const run = (args: string[], cwd: string) =>
+    execFileSync("git", args, {
+      cwd,
+      encoding: "utf8",
+      maxBuffer: 256 * 1024 * 1024,
+      stdio: ["ignore", "pipe", "ignore"],
+    });
+
+  try {
+    const root = run(["rev-parse", "--show-toplevel"], dirs[0]).trim();
+    // git refuses paths outside the checkout
+    const inside = dirs
+      .map((dir) => realPath(dir))
+      .filter((dir) => !path.relative(root, dir).startsWith(".."));
+    const log = run(
+      ["log", "--format=%x00%cI", "--name-only", "--", ...inside],
+      root
+    );
+
+    let date: Date | undefined;
+    for (const line of log.split("\n")) {
+      if (line.startsWith("\0")) {
+        date = new Date(line.slice(1));
+      } else if (line && date) {
+        const file = path.join(root, line);
+        if (!dates.has(file)) dates.set(file, date);
+      }
+    }
+  } catch {
+    // Not a git checkout, or git isn't installed
+  }
+  return dates;
+}
+
+// git reports paths with symlinks resolved, e.g. /private/tmp on macOS
+function realPath(file: string): string {
+  try {
+    return fs.realpathSync(file);
+  } catch {
+    return file;
+  }
+}
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
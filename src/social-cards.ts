@@ -0,0 +1,172 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as ejs from "ejs";
+import { initWasm, Resvg } from "@resvg/resvg-wasm";
+import { DocMeta, SiteConfig } from "./content/types";
+import { PageNavigation } from "./content/navigation";
+import { getPageDescription } from "./metadata";
+import { renderThemeTemplate, Theme } from "./theme";
+import { getSiteUrl } from "./urls";
+
+// Cards are served from /og/<route>.png
+const SOCIAL_CARD_PREFIX = "/og";
+
+// Noto Sans SC covers Latin with its accents, Cyrillic, Vietnamese, Chinese
+// and Japanese kana, so one family draws the titles of most translated sites
+const CARD_FONT_FAMILY = "Noto Sans SC";
+const CARD_FONTS = [
+  "@expo-google-fonts/noto-sans-sc/400Regular/NotoSansSC_400Regular.ttf",
+  "@expo-google-fonts/noto-sans-sc/700Bold/NotoSansSC_700Bold.ttf",
+];
+
+// What the card template is rendered with, besides `wrap`
+export interface SocialCardData {
+  siteTitle: string;
+  pageTitle: string;
+  // Top-level sidebar section of the page, if it is in one
+  section: string;
+  description: string;
+}
+
+// Link previews fetch the card from an absolute URL, so without an absolute
+// `site.baseUrl` there is nothing to point og:image at
+export function hasSocialCards(config: SiteConfig): boolean {
+  return config.socialCards.enabled && getSiteUrl(config) !== undefined;
+}
+
+// "/guide/setup" -> "/og/guide/setup.png", "/" -> "/og/index.png"
+export function getSocialCardRoute(route: string): string {
+  return `${SOCIAL_CARD_PREFIX}${route === "/" ? "/index" : route}.png`;
+}
+
+// The page route a card route belongs to, if it is one
+export function getSocialCardPage(route: string): string | undefined {
+  const match = route.match(/^\/og(\/.+)\.png$/);
+  if (!match) return undefined;
+  return match[1] === "/index" ? "/" : match[1];
+}
+
+export function getSocialCardData(
+  doc: DocMeta,
+  navigation: PageNavigation,
+  config: SiteConfig
+): SocialCardData {
+  const { breadcrumbs } = navigation;
+  return {
+    siteTitle: config.site.title,
+    pageTitle: doc.title,
+    section: breadcrumbs.length > 1 ? breadcrumbs[0].title : "",
+    description: getPageDescription(doc, config),
+  };
+}
+
+// The card's SVG, from `socialCards.template` or the theme's social-card.ejs
+export async function renderSocialCardSvg(
+  data: SocialCardData,
+  config: SiteConfig,
+  theme: Theme,
+  docsDir: string
+): Promise<string> {
+  const templateData = { ...data, wrap: wrapText };
+  if (config.socialCards.template) {
+    return ejs.renderFile(
+      path.resolve(docsDir, config.socialCards.template),
+      templateData
+    );
+  }
+  return renderThemeTemplate(theme, "social-card", templateData);
+}
+
+// The WebAssembly module can only be set up once per thread, so the first
+// card loads it along with the fonts and later cards wait on the same promise
+let cardFonts: Promise<Uint8Array[]> | undefined;
+
+function loadCardRenderer(): Promise<Uint8Array[]> {
+  cardFonts ??= initWasm(
+    fs.readFileSync(require.resolve("@resvg/resvg-wasm/index_bg.wasm"))
+  ).then(() =>
+    CARD_FONTS.map((font) => fs.readFileSync(require.resolve(font)))
+  );
+  return cardFonts;
+}
+
+// Rasterizes the card's SVG with resvg. Invalid SVG throws.
+export async function renderSocialCard(svg: string): Promise<Buffer> {
+  const fontBuffers = await loadCardRenderer();
+  const resvg = new Resvg(svg, {
+    font: {
+      fontBuffers,
+      loadSystemFonts: false,
+      defaultFontFamily: CARD_FONT_FAMILY,
+      sansSerifFamily: CARD_FONT_FAMILY,
+    },
+  });
+  const image = resvg.render();
+  const png = Buffer.from(image.asPng());
+  image.free();
+  resvg.free();
+  return png;
+}
+
+// Chinese and Japanese characters are about twice as wide as Latin letters
+const WIDE_CHARACTER =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\u3000-\u303f\uff01-\uff60]/u;
+
+// Width of `text` in Latin letters
+function getTextWidth(text: string): number {
+  let width = 0;
+  for (const char of text) width += WIDE_CHARACTER.test(char) ? 2 : 1;
+  return width;
+}
+
+// Cuts off the longest start of `text` no wider than `width`, but at least
+// one character
+function splitAtWidth(text: string, width: number): [string, string] {
+  const chars = Array.from(text);
+  let end = 1;
+  while (
+    end < chars.length &&
+    getTextWidth(chars.slice(0, end + 1).join("")) <= width
+  ) {
+    end++;
+  }
+  return [chars.slice(0, end).join(""), chars.slice(end).join("")];
+}
+
+// Splits `text` into lines of about `maxChars` Latin letters, counting wide
+// characters twice, as the card font is proportional. Text without spaces,
+// such as Chinese, is broken anywhere. Text beyond `maxLines` is cut with "…".
+export function wrapText(
+  text: string,
+  maxChars: number,
+  maxLines: number = Infinity
+): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (!line) {
+      line = word;
+    } else if (getTextWidth(line) + 1 + getTextWidth(word) <= maxChars) {
+      line += ` ${word}`;
+    } else {
+      lines.push(line);
+      line = word;
+    }
+    // Words longer than a line are broken up
+    while (getTextWidth(line) > maxChars) {
+      const [head, rest] = splitAtWidth(line, maxChars);
+      lines.push(head);
+      line = rest;
+    }
+  }
+  if (line) lines.push(line);
+
+  if (lines.length <= maxLines) return lines;
+  const kept = lines.slice(0, maxLines);
+  const last = kept[maxLines - 1];
+  kept[maxLines - 1] =
+    (getTextWidth(last) < maxChars
+      ? last
+      : splitAtWidth(last, maxChars - 1)[0]) + "…";
+  return kept;
+}
@@ -0,0 +1,120 @@
+import * as fs from "fs";
+import * as path from "path";
+import ejs from "ejs";
+import { Diagnostic, DocMeta, SiteConfig } from "./content/types";
+
+export const BUILTIN_TEMPLATE_DIR = path.join(__dirname, "web", "template");
+export const BUILTIN_PUBLIC_DIR = path.join(__dirname, "web", "public");
+
+// Folder in the docs directory that overrides templates and assets
+export const THEME_DIR = "theme";
+
+export interface Theme {
+  // Searched in order for each template; the built-in templates come last
+  templateDirs: string[];
+  // Static assets copied over the built-in ones, most specific first
+  publicDirs: string[];
+}
+
+export const DEFAULT_THEME: Theme = {
+  templateDirs: [BUILTIN_TEMPLATE_DIR],
+  publicDirs: [],
+};
+
+// Templates are looked up in the docs directory's theme/ folder, then in the
+// theme package named by the `theme` config option, then in the built-in
+// templates. A theme only needs the templates it changes, with its static
+// assets in a public/ folder next to them.
+export function resolveTheme(
+  docsDir: string,
+  config: SiteConfig,
+  configFile: string = ""
+): { theme: Theme; diagnostics: Diagnostic[] } {
+  const diagnostics: Diagnostic[] = [];
+  const dirs: string[] = [];
+
+  const local = path.join(docsDir, THEME_DIR);
+  if (fs.existsSync(local)) dirs.push(local);
+
+  if (config.theme) {
+    try {
+      const manifest = require.resolve(`${config.theme}/package.json`, {
+        paths: [docsDir, process.cwd()],
+      });
+      dirs.push(path.dirname(manifest));
+    } catch {
+      diagnostics.push({
+        file: configFile,
+        severity: "error",
+        message: `Theme "${config.theme}" is not installed`,
+      });
+    }
+  }
+
+  return {
+    theme: {
+      templateDirs: [...dirs, BUILTIN_TEMPLATE_DIR],
+      publicDirs: dirs
+        .map((dir) => path.join(dir, "public"))
+        .filter((dir) => fs.existsSync(dir)),
+    },
+    diagnostics,
+  };
+}
+
+// "slots/head" -> the first theme folder with slots/head.ejs
+export function findTemplate(theme: Theme, name: string): string | undefined {
+  const file = name.endsWith(".ejs") ? name : `${name}.ejs`;
+  for (const dir of theme.templateDirs) {
+    const candidate = path.join(dir, file);
+    if (fs.existsSync(candidate)) return candidate;
+  }
+  return undefined;
+}
+
+// Includes resolve through the theme as well, so a theme can replace a single
+// partial and keep the built-in templates that include it
+export function renderThemeTemplate(
+  theme: Theme,
+  name: string,
+  data: ejs.Data
+): Promise<string> {
+  const file = findTemplate(theme, name);
+  if (!file) {
+    return Promise.reject(new Error(`Template not found: ${name}`));
+  }
+
+  return new Promise((resolve, reject) => {
+    ejs.renderFile(
+      file,
+      data,
+      {
+        includer: (originalPath, parsedPath) => ({
+          filename: findTemplate(theme, originalPath) || parsedPath,
+        }),
+      },
+      (err, html) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(html);
+        }
+      }
+    );
+  });
+}
+
+// The layout a page asked for with `layout:` front matter, as a template
+// name. Pages without one use layout.ejs.
+export function getLayoutTemplate(theme: Theme, doc: DocMeta): string {
+  const layout = doc.frontMatter.layout;
+  if (layout === undefined || layout === "default") return "layout";
+
+  const name = `layouts/${layout}`;
+  if (!findTemplate(theme, name)) {
+    throw new Error(
+      `Unknown layout "${layout}" in ${doc.path}: no ${name}.ejs in the theme`
+    );
+  }
+  return name;
+}
@@ -0,0 +1,37 @@
+import { SiteConfig } from "./content/types";
+
+// Path the site is served under, from `site.baseUrl`: "/" -> "",
+// "https://example.com/docs/" -> "/docs"
+export function getBasePath(config: SiteConfig): string {
+  let pathname = config.site.baseUrl || "/";
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(pathname)) {
+    try {
+      pathname = new URL(pathname).pathname;
+    } catch {
+      pathname = "/";
+    }
+  }
+  return `/${pathname}`.replace(/\/{2,}/g, "/").replace(/\/$/, "");
+}
+
+// Absolute URL of the site root without a trailing slash, when `site.baseUrl`
+// is an absolute URL. Sitemaps and canonical links need one.
+export function getSiteUrl(config: SiteConfig): string | undefined {
+  const baseUrl = config.site.baseUrl || "";
+  if (!/^https?:\/\//i.test(baseUrl)) return undefined;
+  try {
+    return new URL(baseUrl).origin + getBasePath(config);
+  } catch {
+    return undefined;
+  }
+}
+
+// Points root-relative URLs in rendered HTML at the base path. Besides links
+// this covers scripts, stylesheets, images and the search index location.
+export function applyBasePath(html: string, basePath: string): string {
+  if (!basePath) return html;
+  return html.replace(
+    /\b(href|src|action|data-index)="\/(?!\/)/g,
+    `$1="${basePath}/`
+  );
+}
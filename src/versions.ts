@@ -0,0 +1,174 @@
+import * as fs from "fs";
+import * as path from "path";
+import { execFileSync } from "child_process";
+import { Diagnostic, SiteConfig } from "./content/types";
+import { PageNavigation } from "./content/navigation";
+
+export interface ResolvedVersion {
+  name: string;
+  label: string;
+  // Directory the version's pages are loaded from
+  dir: string;
+  // Prepended to the version's routes in the output, e.g. "/v2"
+  prefix: string;
+  latest: boolean;
+}
+
+const VERSION_NAME = /^[A-Za-z0-9._-]+$/;
+
+// Resolves the versions declared in the site config to the directories their
+// pages are loaded from, extracting git refs under .markrealm/versions.
+// Invalid entries are left out and reported against `configFile`.
+export function resolveVersions(
+  config: SiteConfig,
+  docsDir: string,
+  configFile: string = ""
+): { versions: ResolvedVersion[]; diagnostics: Diagnostic[] } {
+  const diagnostics: Diagnostic[] = [];
+  const versions: ResolvedVersion[] = [];
+
+  for (const entry of config.versions) {
+    const report = (message: string) =>
+      diagnostics.push({
+        file: configFile,
+        severity: "error",
+        message: `Version "${entry.name}": ${message}`,
+      });
+
+    if (!entry.name || !VERSION_NAME.test(entry.name)) {
+      report("name must only contain letters, digits, '.', '_' and '-'");
+      continue;
+    }
+    if (entry.name === "latest") {
+      report('"latest" is reserved for the latest version alias');
+      continue;
+    }
+    if (versions.some((version) => version.name === entry.name)) {
+      report("declared more than once");
+      continue;
+    }
+    if ((entry.dir === undefined) === (entry.ref === undefined)) {
+      report("set exactly one of `dir` or `ref`");
+      continue;
+    }
+
+    let dir: string;
+    if (entry.dir !== undefined) {
+      dir = path.resolve(docsDir, entry.dir);
+      if (!fs.existsSync(dir)) {
+        report(`folder ${entry.dir} does not exist`);
+        continue;
+      }
+    } else {
+      dir = path.join(process.cwd(), ".markrealm", "versions", entry.name);
+      try {
+        snapshotGitRef(entry.ref!, entry.path, docsDir, dir);
+      } catch (error) {
+        report(
+          `cannot snapshot ${entry.ref}: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+        continue;
+      }
+    }
+
+    const nested = versions.find(
+      (version) =>
+        dir.startsWith(version.dir + path.sep) ||
+        version.dir.startsWith(dir + path.sep) ||
+        dir === version.dir
+    );
+    if (nested) {
+      report(`folder overlaps the folder of version "${nested.name}"`);
+      continue;
+    }
+
+    versions.push({
+      name: entry.name,
+      label: entry.label || entry.name,
+      dir,
+      prefix: `/${entry.name}`,
+      latest: entry.latest === true,
+    });
+  }
+
+  const latest = versions.filter((version) => version.latest);
+  if (latest.length > 1) {
+    diagnostics.push({
+      file: configFile,
+      severity: "error",
+      message: `Only one version can be latest, found ${latest
+        .map((version) => version.name)
+        .join(", ")}`,
+    });
+    latest.slice(1).forEach((version) => (version.latest = false));
+  } else if (latest.length === 0 && versions.length > 0) {
+    versions[0].latest = true;
+  }
+
+  return { versions, diagnostics };
+}
+
+// Writes the files under `docsPath` at `ref` to `target`. `docsPath` is
+// relative to the repository root and defaults to the docs directory's path.
+function snapshotGitRef(
+  ref: string,
+  docsPath: string | undefined,
+  docsDir: string,
+  target: string
+): void {
+  const root = git(["rev-parse", "--show-toplevel"], docsDir).toString().trim();
+  const source = (docsPath ?? path.relative(root, docsDir))
+    .split(path.sep)
+    .join("/")
+    .replace(/\/+$/, "");
+
+  const files = git(
+    ["ls-tree", "-r", "-z", "--name-only", ref, "--", source || "."],
+    root
+  )
+    .toString()
+    .split("\0")
+    .filter(Boolean);
+  if (files.length === 0) {
+    throw new Error(`no files under "${source || "."}"`);
+  }
+
+  fs.rmSync(target, { recursive: true, force: true });
+  for (const file of files) {
+    const outputPath = path.join(target, path.posix.relative(source, file));
+    fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+    fs.writeFileSync(outputPath, git(["show", `${ref}:${file}`], root));
+  }
+}
+
+function git(args: string[], cwd: string): Buffer {
+  return execFileSync("git", args, {
+    cwd,
+    stdio: ["ignore", "pipe", "pipe"],
+    maxBuffer: 64 * 1024 * 1024,
+  });
+}
+
+// Points root-relative links in rendered HTML into a version or locale, so
+// pages keep linking to "/guide" in their source
+export function prefixLinks(html: string, prefix: string): string {
+  if (!prefix) return html;
+  return html.replace(/\bhref="\/(?!\/)/g, `href="${prefix}/`);
+}
+
+export function prefixNavigation(
+  navigation: PageNavigation,
+  prefix: string
+): PageNavigation {
+  if (!prefix) return navigation;
+
+  const prefixLink = <T extends { route?: string }>(link: T): T =>
+    link.route === undefined ? link : { ...link, route: prefix + link.route };
+  return {
+    prev: navigation.prev && prefixLink(navigation.prev),
+    next: navigation.next && prefixLink(navigation.next),
+    breadcrumbs: navigation.breadcrumbs.map(prefixLink),
+  };
+}
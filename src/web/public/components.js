@@ -0,0 +1,62 @@
+// Client-side behaviour for the built-in Markdoc components
+(function () {
+  function selectTab(tabs, tab) {
+    var buttons = tabs.querySelectorAll('[role="tab"]');
+    buttons.forEach(function (button) {
+      var selected = button === tab;
+      var panel = document.getElementById(
+        button.getAttribute("aria-controls")
+      );
+      button.setAttribute("aria-selected", selected ? "true" : "false");
+      button.setAttribute("tabindex", selected ? "0" : "-1");
+      if (panel) panel.hidden = !selected;
+    });
+  }
+
+  function initTabs(root) {
+    root.querySelectorAll("[data-tabs]").forEach(function (tabs) {
+      if (tabs.dataset.tabsReady) return;
+      tabs.dataset.tabsReady = "true";
+
+      var buttons = Array.prototype.slice.call(
+        tabs.querySelectorAll('[role="tab"]')
+      );
+
+      buttons.forEach(function (button, index) {
+        button.addEventListener("click", function () {
+          selectTab(tabs, button);
+        });
+
+        // Arrow keys move between tabs as described by WAI-ARIA
+        button.addEventListener("keydown", function (event) {
+          var next = null;
+          if (event.key === "ArrowRight") {
+            next = buttons[(index + 1) % buttons.length];
+          } else if (event.key === "ArrowLeft") {
+            next = buttons[(index - 1 + buttons.length) % buttons.length];
+          } else if (event.key === "Home") {
+            next = buttons[0];
+          } else if (event.key === "End") {
+            next = buttons[buttons.length - 1];
+          }
+
+          if (next) {
+            event.preventDefault();
+            selectTab(tabs, next);
+            next.focus();
+          }
+        });
+      });
+    });
+  }
+
+  window.markrealmInitComponents = initTabs;
+
+  if (document.readyState === "loading") {
+    document.addEventListener("DOMContentLoaded", function () {
+      initTabs(document);
+    });
+  } else {
+    initTabs(document);
+  }
+})();
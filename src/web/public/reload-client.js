@@ -0,0 +1,228 @@
+// Live reload for the dev server. The socket tells the server which route is
+// open; the server then pushes freshly rendered fragments for that route,
+// which are morphed into the page so scroll position and UI state survive.
+(function () {
+  var RETRY_MS = 1000;
+  var SCROLL_KEY = "markrealm:scroll";
+
+  // Attributes changed at runtime by the reader or by client scripts. Elements
+  // that exist before and after an update keep their current values.
+  var STATE_ATTRIBUTES = [
+    "open",
+    "hidden",
+    "aria-selected",
+    "tabindex",
+    "data-tabs-ready",
+  ];
+
+  // Path the site is served under, taken from where this script was loaded
+  var BASE_PATH = new URL(document.currentScript.src).pathname.replace(
+    /\/reload-client\.js$/,
+    ""
+  );
+
+  // Routes are reported without the base path, as the server knows them
+  function currentRoute() {
+    var route = window.location.pathname.replace(/\/+$/, "");
+    if (route === BASE_PATH || route.indexOf(BASE_PATH + "/") === 0) {
+      route = route.slice(BASE_PATH.length);
+    }
+    return route || "/";
+  }
+
+  // Full reloads remember the scroll position for the reloaded page
+  function reload() {
+    sessionStorage.setItem(
+      SCROLL_KEY,
+      JSON.stringify({
+        path: window.location.pathname,
+        x: window.scrollX,
+        y: window.scrollY,
+      })
+    );
+    window.location.reload();
+  }
+
+  function restoreScroll() {
+    var saved = sessionStorage.getItem(SCROLL_KEY);
+    if (!saved) return;
+    sessionStorage.removeItem(SCROLL_KEY);
+
+    var position = JSON.parse(saved);
+    if (position.path === window.location.pathname) {
+      window.scrollTo(position.x, position.y);
+    }
+  }
+
+  function isSameNode(a, b) {
+    return (
+      a.nodeType === b.nodeType &&
+      a.nodeName === b.nodeName &&
+      (a.nodeType !== Node.ELEMENT_NODE || a.id === b.id)
+    );
+  }
+
+  function morphAttributes(from, to) {
+    Array.prototype.slice.call(to.attributes).forEach(function (attribute) {
+      if (STATE_ATTRIBUTES.indexOf(attribute.name) !== -1) return;
+      if (from.getAttribute(attribute.name) !== attribute.value) {
+        from.setAttribute(attribute.name, attribute.value);
+      }
+    });
+    Array.prototype.slice.call(from.attributes).forEach(function (attribute) {
+      if (STATE_ATTRIBUTES.indexOf(attribute.name) !== -1) return;
+      if (!to.hasAttribute(attribute.name)) {
+        from.removeAttribute(attribute.name);
+      }
+    });
+  }
+
+  function morph(from, to) {
+    if (from.nodeType !== Node.ELEMENT_NODE) {
+      if (from.nodeValue !== to.nodeValue) from.nodeValue = to.nodeValue;
+      return;
+    }
+    morphAttributes(from, to);
+    morphChildren(from, to);
+  }
+
+  // Elements with an id are matched by id wherever they moved; everything
+  // else is matched by position
+  function morphChildren(from, to) {
+    var byId = {};
+    Array.prototype.forEach.call(from.children, function (child) {
+      if (child.id) byId[child.id] = child;
+    });
+
+    var current = from.firstChild;
+    Array.prototype.slice.call(to.childNodes).forEach(function (next) {
+      var match = next.id ? byId[next.id] : null;
+      if (!match && current && isSameNode(current, next) && !current.id) {
+        match = current;
+      }
+
+      if (match) {
+        if (match !== current) from.insertBefore(match, current);
+        else current = current.nextSibling;
+        morph(match, next);
+      } else {
+        from.insertBefore(document.importNode(next, true), current);
+      }
+    });
+
+    while (current) {
+      var stale = current;
+      current = current.nextSibling;
+      from.removeChild(stale);
+    }
+  }
+
+  function parseFragment(html) {
+    var template = document.createElement("template");
+    template.innerHTML = html;
+    return template.content;
+  }
+
+  function morphInto(element, html) {
+    var next = element.cloneNode(false);
+    next.appendChild(parseFragment(html));
+    morphChildren(element, next);
+  }
+
+  // The table of contents is left out of pages without headings, so it may
+  // have to be added or removed rather than morphed
+  function morphToc(html) {
+    var existing = document.querySelector("aside.toc");
+    var next = parseFragment(html).querySelector("aside.toc");
+    if (!next) {
+      if (existing) existing.remove();
+    } else if (!existing) {
+      document.querySelector("main.content").after(next);
+    } else {
+      morph(existing, next);
+    }
+  }
+
+  function applyUpdate(message) {
+    var content = document.querySelector("main.content");
+    var sidebar = document.querySelector(".sidebar-nav");
+    if (!content || !sidebar) {
+      reload();
+      return;
+    }
+
+    document.title = message.title;
+    morphInto(content, message.content);
+    if (message.sidebar !== undefined) morphInto(sidebar, message.sidebar);
+    if (message.toc !== undefined) morphToc(message.toc);
+
+    if (window.markrealmInitComponents) window.markrealmInitComponents(content);
+    if (window.markrealmUpdateToc) window.markrealmUpdateToc();
+  }
+
+  // Load, render and config errors are shown over the page until fixed or
+  // dismissed. Messages without an overlay clear it.
+  function showOverlay(html) {
+    var existing = document.getElementById("markrealm-error-overlay");
+    if (!html) {
+      if (existing) existing.remove();
+      return;
+    }
+
+    var overlay = existing || document.createElement("div");
+    overlay.id = "markrealm-error-overlay";
+    overlay.className = "error-overlay";
+    overlay.innerHTML =
+      '<button type="button" class="error-overlay-close" aria-label="Dismiss">&times;</button>' +
+      html;
+    overlay
+      .querySelector(".error-overlay-close")
+      .addEventListener("click", function () {
+        overlay.remove();
+      });
+    if (!existing) document.body.appendChild(overlay);
+  }
+
+  // Re-requesting the stylesheet with a new query string swaps it in place
+  function swapStylesheet(href) {
+    document.querySelectorAll('link[rel="stylesheet"]').forEach(function (link) {
+      var url = new URL(link.href);
+      if (url.pathname !== BASE_PATH + href) return;
+      url.searchParams.set("t", Date.now());
+      link.href = url.toString();
+    });
+  }
+
+  function connect() {
+    var protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+    var socket = new WebSocket(
+      protocol +
+        "//" +
+        window.location.host +
+        "/_livereload?route=" +
+        encodeURIComponent(currentRoute())
+    );
+
+    socket.addEventListener("message", function (event) {
+      var message = JSON.parse(event.data);
+      if (message.type === "update" && message.route === currentRoute()) {
+        applyUpdate(message);
+        showOverlay(message.overlay);
+      } else if (message.type === "error" && message.route === currentRoute()) {
+        showOverlay(message.overlay);
+      } else if (message.type === "css") {
+        swapStylesheet(message.href);
+      } else if (message.type === "reload") {
+        reload();
+      }
+    });
+
+    // Keep trying while the dev server restarts
+    socket.addEventListener("close", function () {
+      setTimeout(connect, RETRY_MS);
+    });
+  }
+
+  window.addEventListener("load", restoreScroll);
+  connect();
+})();
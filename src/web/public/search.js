@@ -0,0 +1,238 @@
+// Offline full-text search over the page's search index (/search-index.json,
+// or one per documentation version), opened with Ctrl/Cmd-K
+(function () {
+  var MAX_RESULTS = 12;
+  var SNIPPET_RADIUS = 60;
+
+  var indexUrl = "/search-index.json";
+  var noResults = "No results";
+  var entries = null;
+  var loading = null;
+  var selected = 0;
+  var results = [];
+
+  function loadIndex() {
+    if (!loading) {
+      loading = fetch(indexUrl)
+        .then(function (response) {
+          return response.json();
+        })
+        .then(function (data) {
+          entries = data;
+          return data;
+        });
+    }
+    return loading;
+  }
+
+  function escapeHtml(text) {
+    return text
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;");
+  }
+
+  function escapeRegExp(text) {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  }
+
+  function tokenize(query) {
+    return query.toLowerCase().split(/\s+/).filter(Boolean);
+  }
+
+  // Every term must appear somewhere. Title matches outrank section heading
+  // matches, which outrank body matches; word-prefix matches score extra.
+  function score(entry, terms) {
+    var title = entry.title.toLowerCase();
+    var section = (entry.section || "").toLowerCase();
+    var text = entry.text.toLowerCase();
+    var total = 0;
+
+    for (var i = 0; i < terms.length; i++) {
+      var term = terms[i];
+      var wordStart = new RegExp("(^|\\W)" + escapeRegExp(term));
+      var termScore = 0;
+
+      if (title.indexOf(term) !== -1) {
+        termScore += wordStart.test(title) ? 12 : 8;
+      }
+      if (section.indexOf(term) !== -1) {
+        termScore += wordStart.test(section) ? 7 : 5;
+      }
+      var position = text.indexOf(term);
+      if (position !== -1) {
+        termScore += wordStart.test(text) ? 2 : 1;
+        termScore += Math.min(text.split(term).length - 2, 3) * 0.5;
+      }
+
+      if (termScore === 0) return 0;
+      total += termScore;
+    }
+
+    return total;
+  }
+
+  // Splitting on a capturing pattern puts the matches at odd indices
+  function highlight(text, terms) {
+    var pattern = new RegExp(
+      "(" + terms.map(escapeRegExp).join("|") + ")",
+      "gi"
+    );
+    return text
+      .split(pattern)
+      .map(function (part, index) {
+        return index % 2 === 1
+          ? "<mark>" + escapeHtml(part) + "</mark>"
+          : escapeHtml(part);
+      })
+      .join("");
+  }
+
+  function snippet(text, terms) {
+    var lower = text.toLowerCase();
+    var position = -1;
+    for (var i = 0; i < terms.length && position === -1; i++) {
+      position = lower.indexOf(terms[i]);
+    }
+    if (position === -1) position = 0;
+
+    var start = Math.max(0, position - SNIPPET_RADIUS);
+    var end = Math.min(text.length, position + SNIPPET_RADIUS * 2);
+    return (
+      (start > 0 ? "…" : "") +
+      highlight(text.slice(start, end), terms) +
+      (end < text.length ? "…" : "")
+    );
+  }
+
+  function search(query) {
+    var terms = tokenize(query);
+    if (terms.length === 0 || !entries) return [];
+
+    return entries
+      .map(function (entry) {
+        return { entry: entry, score: score(entry, terms) };
+      })
+      .filter(function (result) {
+        return result.score > 0;
+      })
+      .sort(function (a, b) {
+        return b.score - a.score;
+      })
+      .slice(0, MAX_RESULTS)
+      .map(function (result) {
+        return {
+          url: result.entry.url,
+          title: highlight(result.entry.title, terms),
+          section: result.entry.section
+            ? highlight(result.entry.section, terms)
+            : "",
+          snippet: snippet(result.entry.text, terms),
+        };
+      });
+  }
+
+  function init() {
+    var dialog = document.querySelector(".search-dialog");
+    if (!dialog) return;
+    indexUrl = dialog.getAttribute("data-index") || indexUrl;
+    noResults = dialog.getAttribute("data-no-results") || noResults;
+
+    var input = dialog.querySelector(".search-input");
+    var list = dialog.querySelector(".search-results");
+
+    function render() {
+      if (results.length === 0) {
+        list.innerHTML = input.value.trim()
+          ? '<li class="search-empty">' + escapeHtml(noResults) + "</li>"
+          : "";
+        return;
+      }
+
+      list.innerHTML = results
+        .map(function (result, index) {
+          return (
+            '<li role="option" id="search-result-' +
+            index +
+            '" aria-selected="' +
+            (index === selected) +
+            '"><a href="' +
+            escapeHtml(result.url) +
+            '"><span class="search-result-title">' +
+            result.title +
+            (result.section ? " › " + result.section : "") +
+            '</span><span class="search-result-snippet">' +
+            result.snippet +
+            "</span></a></li>"
+          );
+        })
+        .join("");
+      input.setAttribute("aria-activedescendant", "search-result-" + selected);
+    }
+
+    function update() {
+      loadIndex().then(function () {
+        results = search(input.value);
+        selected = 0;
+        render();
+      });
+    }
+
+    function open() {
+      dialog.hidden = false;
+      input.focus();
+      input.select();
+      loadIndex();
+    }
+
+    function close() {
+      dialog.hidden = true;
+    }
+
+    input.addEventListener("input", update);
+
+    input.addEventListener("keydown", function (event) {
+      if (event.key === "ArrowDown" && results.length > 0) {
+        event.preventDefault();
+        selected = (selected + 1) % results.length;
+        render();
+      } else if (event.key === "ArrowUp" && results.length > 0) {
+        event.preventDefault();
+        selected = (selected - 1 + results.length) % results.length;
+        render();
+      } else if (event.key === "Enter" && results[selected]) {
+        event.preventDefault();
+        window.location.href = results[selected].url;
+        close();
+      }
+    });
+
+    dialog.addEventListener("click", function (event) {
+      if (event.target === dialog) close();
+    });
+
+    document.querySelectorAll("[data-search-open]").forEach(function (button) {
+      button.addEventListener("click", open);
+    });
+
+    document.addEventListener("keydown", function (event) {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === "k") {
+        event.preventDefault();
+        if (dialog.hidden) {
+          open();
+        } else {
+          close();
+        }
+      } else if (event.key === "Escape" && !dialog.hidden) {
+        close();
+      }
+    });
+  }
+
+  if (document.readyState === "loading") {
+    document.addEventListener("DOMContentLoaded", init);
+  } else {
+    init();
+  }
+})();
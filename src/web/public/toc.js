@@ -0,0 +1,66 @@
+// Highlights the table of contents entry for the heading currently in view
+(function () {
+  // Links and headings are looked up on every update because the dev server
+  // can replace the page content in place
+  function update() {
+    var links = Array.prototype.slice.call(
+      document.querySelectorAll(".toc-link")
+    );
+    if (links.length === 0) return;
+
+    var headings = links
+      .map(function (link) {
+        return document.getElementById(
+          decodeURIComponent(link.getAttribute("href").slice(1))
+        );
+      })
+      .filter(Boolean);
+
+    // The active heading is the last one scrolled past the top of the page
+    var current = headings[0];
+    for (var i = 0; i < headings.length; i++) {
+      if (headings[i].getBoundingClientRect().top <= 80) {
+        current = headings[i];
+      } else {
+        break;
+      }
+    }
+    if (!current) return;
+
+    links.forEach(function (link) {
+      var active = link.getAttribute("href") === "#" + current.id;
+      link.classList.toggle("active", active);
+      if (active) {
+        link.setAttribute("aria-current", "location");
+      } else {
+        link.removeAttribute("aria-current");
+      }
+    });
+  }
+
+  function init() {
+    var scheduled = false;
+    window.addEventListener(
+      "scroll",
+      function () {
+        if (scheduled) return;
+        scheduled = true;
+        window.requestAnimationFrame(function () {
+          scheduled = false;
+          update();
+        });
+      },
+      { passive: true }
+    );
+
+    update();
+  }
+
+  window.markrealmUpdateToc = update;
+
+  if (document.readyState === "loading") {
+    document.addEventListener("DOMContentLoaded", init);
+  } else {
+    init();
+  }
+})();
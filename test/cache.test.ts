@@ -0,0 +1,135 @@
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import { hashContent, loadBuildCache, saveBuildCache } from "../src/cache";
+import { buildContentIndex } from "../src/content/loader";
+import { buildStaticSite } from "../src/build";
+import { useTempSite } from "./helpers";
+
+describe("Build Cache", () => {
+  const site = useTempSite("cache");
+  const { writeFile, read } = site;
+
+  it("should keep parts separate when hashing", () => {
+    expect(hashContent("ab", "c")).not.toBe(hashContent("a", "bc"));
+    expect(hashContent("a", "b")).toBe(hashContent("a", "b"));
+  });
+
+  it("should round-trip the manifest including front matter dates", () => {
+    const cache = loadBuildCache(site.docsDir, site.outDir);
+    expect(cache.file.startsWith(path.join(site.workDir, ".markrealm"))).toBe(
+      true
+    );
+
+    const date = new Date("2024-03-01T00:00:00.000Z");
+    cache.documents["/docs/a.md"] = {
+      hash: "abc",
+      doc: {
+        path: "/docs/a.md",
+        route: "/a",
+        title: "A",
+        headings: [],
+        frontMatter: { date },
+        links: [],
+        html: "",
+        diagnostics: [],
+      },
+    };
+    cache.pages["/a"] = { key: "def", output: "a/index.html" };
+    saveBuildCache(cache);
+
+    const loaded = loadBuildCache(site.docsDir, site.outDir);
+    expect(loaded.pages).toEqual(cache.pages);
+    expect(loaded.documents["/docs/a.md"].doc.frontMatter.date).toEqual(date);
+  });
+
+  it("should ignore a manifest written by another cache version", () => {
+    const cache = loadBuildCache(site.docsDir, site.outDir);
+    fs.mkdirSync(path.dirname(cache.file), { recursive: true });
+    fs.writeFileSync(
+      cache.file,
+      JSON.stringify({ version: 0, documents: {}, pages: { "/a": {} } })
+    );
+
+    expect(loadBuildCache(site.docsDir, site.outDir).pages).toEqual({});
+  });
+
+  it("should reuse cached documents until their content changes", async () => {
+    writeFile("guide.md", "# Guide\n");
+    const cache = { key: "schema", documents: {} };
+
+    const first = await buildContentIndex(site.docsDir, { ignore: [], cache });
+    const second = await buildContentIndex(site.docsDir, { ignore: [], cache });
+    expect(second.byRoute.get("/guide")).toBe(first.byRoute.get("/guide"));
+
+    writeFile("guide.md", "# Updated guide\n");
+    const third = await buildContentIndex(site.docsDir, { ignore: [], cache });
+    expect(third.byRoute.get("/guide")!.title).toBe("Updated guide");
+
+    writeFile("_partials/note.md", "Note\n");
+    writeFile(
+      "guide.md",
+      '# Guide\n\n{% partial file="_partials/note.md" /%}\n'
+    );
+    await buildContentIndex(site.docsDir, { ignore: [], cache });
+    writeFile("_partials/note.md", "Edited note\n");
+    const withPartial = await buildContentIndex(site.docsDir, {
+      ignore: [],
+      cache,
+    });
+    expect(withPartial.byRoute.get("/guide")!.html).toContain("Edited note");
+
+    cache.key = "other schema";
+    const fourth = await buildContentIndex(site.docsDir, { ignore: [], cache });
+    expect(fourth.byRoute.get("/guide")).not.toBe(third.byRoute.get("/guide"));
+  });
+
+  it("should only re-render changed pages and remove deleted ones", async () => {
+    writeFile("index.md", "# Home\n");
+    writeFile("guide.md", "# Guide\n");
+    writeFile("extra.md", "# Extra\n");
+    const build = () =>
+      buildStaticSite({ dir: site.docsDir, out: site.outDir });
+
+    await build();
+    const extraOutput = path.join(site.outDir, "extra", "index.html");
+    expect(fs.existsSync(extraOutput)).toBe(true);
+
+    await build();
+    expect(console.log).toHaveBeenCalledWith(
+      "Rendered 0 pages, skipped 3 unchanged"
+    );
+
+    // Editing a page body leaves the sidebar and navigation of others alone
+    writeFile("guide.md", "# Guide\n\nMore text.\n");
+    await build();
+    expect(console.log).toHaveBeenCalledWith(
+      "Rendered 1 pages, skipped 2 unchanged"
+    );
+    expect(read("guide", "index.html")).toContain("More text.");
+
+    fs.rmSync(path.join(site.docsDir, "extra.md"));
+    await build();
+    expect(fs.existsSync(extraOutput)).toBe(false);
+    expect(fs.existsSync(path.dirname(extraOutput))).toBe(false);
+    expect(fs.existsSync(path.join(site.outDir, "guide", "index.html"))).toBe(
+      true
+    );
+  });
+
+  it("should rebuild everything with the cache disabled", async () => {
+    writeFile("index.md", "# Home\n");
+    await buildStaticSite({ dir: site.docsDir, out: site.outDir });
+
+    const stale = path.join(site.outDir, "stale.html");
+    fs.writeFileSync(stale, "");
+    await buildStaticSite({
+      dir: site.docsDir,
+      out: site.outDir,
+      cache: false,
+    });
+
+    expect(fs.existsSync(stale)).toBe(false);
+    expect(fs.existsSync(path.join(site.outDir, "index.html"))).toBe(true);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import { renderMarkdocToHtml } from "../src/content/markdoc";
+
+const render = (src: string) => renderMarkdocToHtml(src).html;
+
+describe("Built-in Components", () => {
+  describe("callout", () => {
+    it("should render a note by default", () => {
+      const html = render("{% callout %}\nRemember this.\n{% /callout %}\n");
+      expect(html).toContain('<div class="callout callout-note" role="note">');
+      expect(html).toContain(
+        '<div class="callout-content"><p>Remember this.</p></div>'
+      );
+    });
+
+    it("should render warning and danger callouts as alerts with titles", () => {
+      const html = render(
+        '{% callout type="danger" title="Data loss" %}\nCareful.\n{% /callout %}\n'
+      );
+      expect(html).toContain(
+        '<div class="callout callout-danger" role="alert">'
+      );
+      expect(html).toContain('<p class="callout-title">Data loss</p>');
+    });
+  });
+
+  describe("tabs", () => {
+    const html = render(
+      '{% tabs %}\n{% tab label="npm" %}\nnpm i\n{% /tab %}\n{% tab label="yarn" %}\nyarn add\n{% /tab %}\n{% /tabs %}\n'
+    );
+
+    it("should render a tablist with one button per tab", () => {
+      expect(html).toContain('<div role="tablist" class="tabs-list">');
+      expect(html).toMatch(
+        /<button type="button" role="tab" id="tabs-0-tab-0" aria-controls="tabs-0-panel-0" aria-selected="true" tabindex="0">npm<\/button>/
+      );
+      expect(html).toContain('aria-selected="false" tabindex="-1">yarn');
+    });
+
+    it("should hide every panel except the first", () => {
+      expect(html).toContain(
+        '<div role="tabpanel" id="tabs-0-panel-0" aria-labelledby="tabs-0-tab-0" tabindex="0"><p>npm i</p></div>'
+      );
+      expect(html).toContain(
+        'aria-labelledby="tabs-0-tab-1" tabindex="0" hidden=""><p>yarn add</p>'
+      );
+    });
+  });
+
+  describe("code-group", () => {
+    it("should label panels by fence title or language", () => {
+      const html = render(
+        '{% code-group %}\n```js {% title="app.js" %}\nrun()\n```\n```ts\nrun()\n```\n{% /code-group %}\n'
+      );
+      expect(html).toContain('<div class="code-group" data-tabs="true">');
+      expect(html).toContain('tabindex="0">app.js</button>');
+      expect(html).toContain('tabindex="-1">ts</button>');
+      expect(html).toContain('<pre data-language="js" data-title="app.js">');
+    });
+  });
+
+  describe("details", () => {
+    it("should render a collapsible section", () => {
+      const html = render(
+        '{% details summary="Show more" %}\nHidden text.\n{% /details %}\n'
+      );
+      expect(html).toContain(
+        '<details class="details"><summary>Show more</summary><div class="details-content"><p>Hidden text.</p></div></details>'
+      );
+    });
+
+    it("should support the open attribute", () => {
+      const html = render(
+        '{% details summary="Open" open=true %}\nText.\n{% /details %}\n'
+      );
+      expect(html).toContain('<details class="details" open="">');
+    });
+  });
+
+  describe("badge", () => {
+    it("should render inline with a type", () => {
+      const html = render(
+        'Released {% badge type="success" %}v2{% /badge %} today.\n'
+      );
+      expect(html).toContain(
+        '<p>Released <span class="badge badge-success">v2</span> today.</p>'
+      );
+    });
+
+    it("should default to info", () => {
+      expect(render("{% badge %}Beta{% /badge %}\n")).toContain(
+        '<span class="badge badge-info">Beta</span>'
+      );
+    });
+  });
+
+  describe("steps", () => {
+    it("should wrap an ordered list", () => {
+      const html = render("{% steps %}\n1. Install\n2. Run\n{% /steps %}\n");
+      expect(html).toContain(
+        '<div class="steps"><ol><li>Install</li><li>Run</li></ol></div>'
+      );
+    });
+  });
+
+  it("should let user tags override built-ins", () => {
+    const html = renderMarkdocToHtml("{% badge %}Beta{% /badge %}\n", {
+      schema: { tags: { badge: { render: "mark", inline: true } } },
+    }).html;
+    expect(html).toContain("<mark>Beta</mark>");
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { DependencyGraph } from "../src/dependencies";
+import {
+  buildContentIndex,
+  isPartialFile,
+  updateDocumentInIndex,
+} from "../src/content/loader";
+import { renderMarkdocToHtml } from "../src/content/markdoc";
+import { checkInternalLinks } from "../src/content/links";
+
+describe("Dependency Graph", () => {
+  let docsDir: string;
+
+  beforeEach(() => {
+    docsDir = fs.mkdtempSync(path.join(os.tmpdir(), "markrealm-deps-"));
+    fs.mkdirSync(path.join(docsDir, "_partials"));
+    fs.writeFileSync(
+      path.join(docsDir, "_partials", "note.md"),
+      'Shared note {% partial file="_partials/footer.md" /%}\n'
+    );
+    fs.writeFileSync(path.join(docsDir, "_partials", "footer.md"), "Footer\n");
+    fs.writeFileSync(
+      path.join(docsDir, "guide.md"),
+      '# Guide\n\n{% partial file="_partials/note.md" /%}\n'
+    );
+    fs.writeFileSync(path.join(docsDir, "intro.md"), "# Intro\n");
+  });
+
+  afterEach(() => {
+    fs.rmSync(docsDir, { recursive: true, force: true });
+  });
+
+  const file = (...segments: string[]) => path.join(docsDir, ...segments);
+  const options = { ignore: [], partials: ["_partials"] };
+
+  it("should render nested partials and record them as dependencies", () => {
+    const result = renderMarkdocToHtml(
+      fs.readFileSync(file("guide.md"), "utf8"),
+      { partialsDir: docsDir }
+    );
+
+    expect(result.html).toContain("Shared note");
+    expect(result.html).toContain("Footer");
+    expect(result.dependencies).toEqual([
+      file("_partials", "note.md"),
+      file("_partials", "footer.md"),
+    ]);
+    expect(result.diagnostics).toEqual([]);
+  });
+
+  it("should report missing partials but keep them as dependencies", () => {
+    const result = renderMarkdocToHtml('{% partial file="missing.md" /%}\n', {
+      partialsDir: docsDir,
+    });
+
+    expect(result.dependencies).toEqual([file("missing.md")]);
+    expect(result.diagnostics[0].message).toContain("missing.md");
+  });
+
+  it("should process headings and links inside partials", () => {
+    fs.writeFileSync(
+      file("_partials", "links.md"),
+      "## Setup\n\nSee [setup](./setup.md#install).\n"
+    );
+    const result = renderMarkdocToHtml(
+      '## Setup\n\n{% partial file="_partials/links.md" /%}\n',
+      { partialsDir: docsDir, route: "/guide/intro" }
+    );
+
+    expect(result.headings.map((heading) => heading.id)).toEqual([
+      "setup",
+      "setup-1",
+    ]);
+    expect(result.html).toContain('<h2 id="setup-1">Setup</h2>');
+    expect(result.links[0]).toMatchObject({
+      target: "/guide/setup",
+      hash: "install",
+    });
+    expect(result.html).toContain('href="/guide/setup#install"');
+  });
+
+  it("should report broken links inside partials", async () => {
+    fs.writeFileSync(
+      file("_partials", "footer.md"),
+      "[Intro](./intro.md) and [missing](./nope.md)\n"
+    );
+    const index = await buildContentIndex(docsDir, options);
+    const result = await checkInternalLinks(index);
+
+    expect(result.valid.map((link) => link.target)).toEqual(["/intro"]);
+    expect(result.broken.map((link) => link.target)).toEqual(["/nope"]);
+  });
+
+  it("should not publish files in the partials folders as pages", async () => {
+    const partials = ["_partials"];
+    expect(isPartialFile(file("_partials", "note.md"), docsDir, partials)).toBe(
+      true
+    );
+    expect(isPartialFile(file("guide.md"), docsDir, partials)).toBe(false);
+    expect(isPartialFile(file("_partials", "note.md"), docsDir)).toBe(false);
+
+    const index = await buildContentIndex(docsDir, options);
+    expect(Array.from(index.byRoute.keys())).toEqual(["/guide", "/intro"]);
+
+    // Other files starting with an underscore are still pages
+    fs.writeFileSync(file("_changelog.md"), "# Changelog\n");
+    const withChangelog = await buildContentIndex(docsDir, options);
+    expect(withChangelog.byRoute.has("/_changelog")).toBe(true);
+  });
+
+  it("should map pages and partials to the routes built from them", async () => {
+    const index = await buildContentIndex(docsDir, options);
+    const graph = new DependencyGraph([file("config.yaml")]);
+    // Each page depends on its own source file and the partials it includes
+    for (const doc of index.byRoute.values()) {
+      graph.addPage(doc.route, [doc.path, ...(doc.dependencies || [])]);
+    }
+
+    expect(graph.getDependents(file("intro.md"))).toEqual(["/intro"]);
+    expect(graph.getDependents(file("_partials", "footer.md"))).toEqual([
+      "/guide",
+    ]);
+    expect(graph.getDependents(file("other.md"))).toEqual([]);
+  });
+
+  it("should treat shared files and directories as affecting every page", () => {
+    const graph = new DependencyGraph([file("config.yaml"), file("theme")]);
+
+    expect(graph.isShared(file("config.yaml"))).toBe(true);
+    expect(graph.isShared(file("theme", "layout.ejs"))).toBe(true);
+    expect(graph.isShared(file("theme-notes.md"))).toBe(false);
+  });
+
+  it("should pick up partial edits when dependents are reloaded", async () => {
+    const index = await buildContentIndex(docsDir, options);
+    fs.writeFileSync(file("_partials", "footer.md"), "New footer\n");
+
+    updateDocumentInIndex(index, file("guide.md"), docsDir, options);
+    expect(index.byRoute.get("/guide")!.html).toContain("New footer");
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as yaml from "js-yaml";
+import {
+  countErrors,
+  errorToDiagnostic,
+  formatDiagnostic,
+  getCodeExcerpt,
+  renderDiagnosticsOverlay,
+} from "../src/content/diagnostics";
+import { parseDocument } from "../src/content/loader";
+import { readConfig } from "../src/config";
+import { Diagnostic } from "../src/content/types";
+
+describe("Diagnostics", () => {
+  const diagnostics: Diagnostic[] = [
+    {
+      file: "/docs/guide/setup.md",
+      line: 12,
+      column: 3,
+      severity: "error",
+      message: "Undefined tag: 'nope'",
+    },
+    {
+      file: "/docs/index.md",
+      severity: "warning",
+      message: "Something <odd>",
+    },
+  ];
+
+  it("should format diagnostics relative to the docs directory", () => {
+    expect(formatDiagnostic(diagnostics[0], "/docs")).toBe(
+      "guide/setup.md:12:3 error: Undefined tag: 'nope'"
+    );
+    expect(formatDiagnostic(diagnostics[1], "/docs")).toBe(
+      "index.md warning: Something <odd>"
+    );
+  });
+
+  it("should count only errors", () => {
+    expect(countErrors(diagnostics)).toBe(1);
+  });
+
+  it("should escape messages in the overlay", () => {
+    const html = renderDiagnosticsOverlay(diagnostics, "/docs");
+    expect(html).toContain("This page has 2 problem(s)");
+    expect(html).toContain("Something &lt;odd&gt;");
+  });
+});
+
+describe("Error Overlay", () => {
+  let docsDir: string;
+
+  beforeEach(() => {
+    docsDir = fs.mkdtempSync(path.join(os.tmpdir(), "markrealm-errors-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(docsDir, { recursive: true, force: true });
+  });
+
+  const writeFile = (name: string, content: string) => {
+    const file = path.join(docsDir, name);
+    fs.writeFileSync(file, content);
+    return file;
+  };
+
+  it("should convert YAML errors to diagnostics with a position", () => {
+    let error: unknown;
+    try {
+      yaml.load("title: ok\ntags: [a, b\n");
+    } catch (e) {
+      error = e;
+    }
+
+    const diagnostic = errorToDiagnostic(error, "/docs/a.md", 1);
+    expect(diagnostic.severity).toBe("error");
+    expect(diagnostic.line).toBeGreaterThan(1);
+    expect(diagnostic.column).toBeDefined();
+
+    expect(errorToDiagnostic(new Error("boom"), "/docs/a.md")).toEqual({
+      file: "/docs/a.md",
+      severity: "error",
+      message: "boom",
+    });
+  });
+
+  it("should excerpt the lines around an error", () => {
+    const file = writeFile("page.md", "one\ntwo\nthree\nfour\nfive\nsix\n");
+
+    expect(getCodeExcerpt(file, 3, 2)).toBe(
+      [
+        "  1 | one",
+        "  2 | two",
+        "> 3 | three",
+        "       ^",
+        "  4 | four",
+        "  5 | five",
+      ].join("\n")
+    );
+    expect(getCodeExcerpt(file, 99)).toBe("");
+    expect(getCodeExcerpt(path.join(docsDir, "missing.md"), 1)).toBe("");
+  });
+
+  it("should include the excerpt in the overlay", () => {
+    const file = writeFile("page.md", "# Title\n\n{% nope %}\n");
+    const html = renderDiagnosticsOverlay(
+      [{ file, line: 3, severity: "error", message: "Undefined tag" }],
+      docsDir
+    );
+    expect(html).toContain('<pre class="diagnostic-excerpt">');
+    expect(html).toContain("&gt; 3 | {% nope %}");
+  });
+
+  it("should report broken front matter instead of throwing", () => {
+    const content = "---\ntitle: [unclosed\n---\n\n# Body\n";
+    const file = writeFile("broken.md", content);
+
+    const doc = parseDocument(file, docsDir, "/broken", content, {
+      ignore: [],
+    });
+    expect(doc.route).toBe("/broken");
+    expect(doc.diagnostics).toHaveLength(1);
+    expect(doc.diagnostics[0].severity).toBe("error");
+    expect(doc.diagnostics[0].line).toBeDefined();
+  });
+
+  it("should fall back to defaults when the config can't be parsed", () => {
+    writeFile("markrealm.config.yaml", "site: [unclosed\n");
+
+    const { config, diagnostics } = readConfig(docsDir);
+    expect(config.site.title).toBe("My Docs");
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].file).toBe(
+      path.join(docsDir, "markrealm.config.yaml")
+    );
+  });
+});
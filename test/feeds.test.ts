@@ -0,0 +1,175 @@
+import { describe, it, expect, vi } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import { buildStaticSite } from "../src/build";
+import { getFeedPages, parseFeedDate } from "../src/feeds";
+import { DocMeta } from "../src/content/types";
+import { useTempSite } from "./helpers";
+
+describe("Feeds", () => {
+  const site = useTempSite("feeds");
+  const { writeFile, read } = site;
+
+  const doc = (route: string, date?: unknown) =>
+    ({
+      path: `docs${route}.md`,
+      route,
+      title: route,
+      frontMatter: date === undefined ? {} : { date },
+    }) as DocMeta;
+
+  it("should parse ISO dates only", () => {
+    expect(parseFeedDate(new Date("2024-05-01"))).toEqual(
+      new Date("2024-05-01")
+    );
+    expect(parseFeedDate("2024-05-01T00:00:00.000Z")).toEqual(
+      new Date("2024-05-01")
+    );
+    expect(parseFeedDate("2024-05-01T10:30+02:00")).toEqual(
+      new Date("2024-05-01T08:30:00Z")
+    );
+    expect(parseFeedDate("2024-02-30")).toBeUndefined();
+    expect(parseFeedDate("May 1, 2024")).toBeUndefined();
+    expect(parseFeedDate(20240501)).toBeUndefined();
+  });
+
+  it("should order pages by date and report missing dates", () => {
+    const { pages, diagnostics } = getFeedPages(
+      [
+        doc("/changelog"),
+        doc("/changelog/v1", "2024-01-10"),
+        doc("/changelog/v3", new Date("2024-06-01")),
+        doc("/changelog/v2", "2024-03-05"),
+        doc("/changelog/next"),
+        doc("/changelog/beta", "soon"),
+        doc("/changelogs"),
+        doc("/guide"),
+      ],
+      "/changelog"
+    );
+
+    expect(pages.map((page) => page.doc.route)).toEqual([
+      "/changelog/v3",
+      "/changelog/v2",
+      "/changelog/v1",
+    ]);
+    expect(diagnostics).toEqual([
+      {
+        file: "docs/changelog/next.md",
+        severity: "error",
+        message: "`date` is required for pages in the /changelog feed",
+      },
+      {
+        file: "docs/changelog/beta.md",
+        severity: "error",
+        message: '`date` must be a date like 2024-05-01, got "soon"',
+      },
+    ]);
+  });
+
+  it("should write Atom and RSS feeds with absolute URLs", async () => {
+    writeFile(
+      "markrealm.config.yaml",
+      [
+        "site:",
+        "  title: Acme Docs",
+        "  baseUrl: https://example.com/docs/",
+        "feeds:",
+        "  - path: /changelog/",
+        "",
+      ].join("\n")
+    );
+    writeFile("index.md", "# Home\n");
+    writeFile("guide.md", "# Guide\n");
+    writeFile(
+      "changelog/index.md",
+      "# Changelog\n\nWhat changed in each release.\n"
+    );
+    writeFile(
+      "changelog/v1.md",
+      "---\ndate: 2024-01-10\n---\n\n# Version 1\n\nRead the [guide](/guide) & [notes](#notes).\n\n## Notes\n"
+    );
+    writeFile(
+      "changelog/v2.md",
+      "---\ndate: 2024-03-05\n---\n\n# Version 2\n\nFaster <builds>.\n"
+    );
+    await buildStaticSite({
+      dir: site.docsDir,
+      out: site.outDir,
+      concurrency: 1,
+    });
+
+    const atom = read("changelog", "feed.xml");
+    expect(atom).toContain("<title>Acme Docs: Changelog</title>");
+    expect(atom).toContain(
+      "<subtitle>What changed in each release.</subtitle>"
+    );
+    expect(atom).toContain(
+      '<link href="https://example.com/docs/changelog/feed.xml" rel="self" />'
+    );
+    expect(atom).toContain("<updated>2024-03-05T00:00:00.000Z</updated>");
+    expect(atom.indexOf("Version 2")).toBeLessThan(atom.indexOf("Version 1"));
+    expect(atom).not.toContain("<title>Changelog</title>");
+    expect(atom).toContain(
+      "&lt;a href=&quot;https://example.com/docs/guide&quot;&gt;guide&lt;/a&gt; &amp;amp;"
+    );
+    expect(atom).toContain(
+      "href=&quot;https://example.com/docs/changelog/v1#notes&quot;"
+    );
+
+    const rss = read("changelog", "rss.xml");
+    expect(rss).toContain("<link>https://example.com/docs/changelog</link>");
+    expect(rss).toContain(
+      '<guid isPermaLink="true">https://example.com/docs/changelog/v2</guid>'
+    );
+    expect(rss).toContain("<pubDate>Tue, 05 Mar 2024 00:00:00 GMT</pubDate>");
+    expect(rss).toContain("Faster &amp;lt;builds&amp;gt;.");
+
+    // Rebuilding without the feed removes its files
+    writeFile(
+      "markrealm.config.yaml",
+      "site:\n  baseUrl: https://example.com/docs/\n"
+    );
+    await buildStaticSite({
+      dir: site.docsDir,
+      out: site.outDir,
+      concurrency: 1,
+    });
+    expect(fs.existsSync(path.join(site.outDir, "changelog", "feed.xml"))).toBe(
+      false
+    );
+    expect(
+      fs.existsSync(path.join(site.outDir, "changelog", "index.html"))
+    ).toBe(true);
+  });
+
+  it("should fail the build for entries without a date", async () => {
+    writeFile(
+      "markrealm.config.yaml",
+      [
+        "site:",
+        "  baseUrl: https://example.com",
+        "feeds:",
+        "  - path: /changelog",
+        "",
+      ].join("\n")
+    );
+    writeFile("index.md", "# Home\n");
+    writeFile("changelog/v1.md", "# Version 1\n");
+    const exit = vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+
+    await expect(
+      buildStaticSite({ dir: site.docsDir, out: site.outDir, concurrency: 1 })
+    ).rejects.toThrow("exit");
+    expect(exit).toHaveBeenCalledWith(1);
+    const output = vi
+      .mocked(console.log)
+      .mock.calls.map((args) => args.join(" "))
+      .join("\n");
+    expect(output).toContain(
+      "changelog/v1.md error: `date` is required for pages in the /changelog feed"
+    );
+  });
+});
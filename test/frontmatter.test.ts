@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { validateFrontMatter } from "../src/content/frontmatter";
+
+describe("Front Matter Validation", () => {
+  const src = "---\ntitle: Getting Started\nsidebar_position: first\n---\n";
+
+  it("should report fields with the wrong type and their line", () => {
+    const result = validateFrontMatter(
+      { title: "Getting Started", sidebar_position: "first" },
+      { sidebar_position: { type: "number" } },
+      "/docs/getting-started.md",
+      src
+    );
+
+    expect(result.diagnostics).toEqual([
+      {
+        file: "/docs/getting-started.md",
+        line: 3,
+        severity: "error",
+        message: "`sidebar_position` must be a number",
+      },
+    ]);
+  });
+
+  it("should report missing required fields", () => {
+    const result = validateFrontMatter(
+      {},
+      { title: { type: "string", required: true } },
+      "/docs/index.md"
+    );
+
+    expect(result.diagnostics).toHaveLength(1);
+    expect(result.diagnostics[0].message).toBe("`title` is required");
+    expect(result.diagnostics[0].line).toBeUndefined();
+  });
+
+  it("should report values outside of an enum", () => {
+    const result = validateFrontMatter(
+      { status: "archived" },
+      { status: { type: "string", enum: ["draft", "published"] } },
+      "/docs/index.md"
+    );
+
+    expect(result.diagnostics[0].message).toBe(
+      "`status` must be one of: draft, published"
+    );
+  });
+
+  it("should apply defaults for missing fields", () => {
+    const result = validateFrontMatter(
+      { title: "Intro" },
+      { status: { type: "string", default: "published", required: true } },
+      "/docs/index.md"
+    );
+
+    expect(result.diagnostics).toEqual([]);
+    expect(result.frontMatter).toEqual({ title: "Intro", status: "published" });
+  });
+
+  it("should accept dates, arrays and booleans", () => {
+    const result = validateFrontMatter(
+      { date: new Date("2024-01-15"), tags: ["a"], draft: false },
+      {
+        date: { type: "date" },
+        tags: { type: "array" },
+        draft: { type: "boolean" },
+      },
+      "/docs/index.md"
+    );
+
+    expect(result.diagnostics).toEqual([]);
+  });
+});
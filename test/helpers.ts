@@ -0,0 +1,50 @@
+import { beforeEach, afterEach, vi } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+export interface TempSite {
+  // Fresh for every test, and the process's working directory meanwhile
+  workDir: string;
+  // docs/ and dist/ inside workDir, neither created up front
+  docsDir: string;
+  outDir: string;
+  // Writes a file below docsDir, creating its folders
+  writeFile(name: string, content: string): void;
+  // Reads a file of the build output
+  read(...segments: string[]): string;
+}
+
+// Gives each test of the calling suite its own temporary site, with
+// console.log silenced, and removes it afterwards. `name` labels the temporary
+// folder.
+export function useTempSite(name: string): TempSite {
+  const site: TempSite = {
+    workDir: "",
+    docsDir: "",
+    outDir: "",
+    writeFile(file, content) {
+      const filePath = path.join(site.docsDir, file);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, content);
+    },
+    read(...segments) {
+      return fs.readFileSync(path.join(site.outDir, ...segments), "utf8");
+    },
+  };
+
+  beforeEach(() => {
+    site.workDir = fs.mkdtempSync(path.join(os.tmpdir(), `markrealm-${name}-`));
+    site.docsDir = path.join(site.workDir, "docs");
+    site.outDir = path.join(site.workDir, "dist");
+    vi.spyOn(process, "cwd").mockReturnValue(site.workDir);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(site.workDir, { recursive: true, force: true });
+  });
+
+  return site;
+}
@@ -0,0 +1,182 @@
+import { describe, it, expect } from "vitest";
+import * as path from "path";
+import { loadConfig } from "../src/config";
+import {
+  buildStaticSite,
+  checkSectionLinks,
+  loadSiteSections,
+} from "../src/build";
+import { generateSidebar } from "../src/content/sidebar";
+import { MarkrealmServer } from "../src/server";
+import { getUiStrings, resolveLocales, splitLocalePath } from "../src/i18n";
+import { useTempSite } from "./helpers";
+
+describe("Internationalization", () => {
+  const site = useTempSite("i18n");
+  const { writeFile, read } = site;
+
+  const writeLocalizedSite = (extraConfig: string[] = []) => {
+    writeFile(
+      "markrealm.config.yaml",
+      [
+        "locales:",
+        "  - code: en",
+        "    label: English",
+        "  - code: de",
+        "    label: Deutsch",
+        ...extraConfig,
+        "",
+      ].join("\n")
+    );
+    writeFile("index.md", "# Home\n\nRead the [setup](/guide/setup).\n");
+    writeFile(
+      "guide/_category.yaml",
+      "label: Guide\nlabels:\n  de: Anleitung\n"
+    );
+    writeFile("guide/setup.md", "# Setup\n");
+    writeFile("guide/usage.md", "# Usage\n\n[Missing](/missing)\n");
+    writeFile("de/index.md", "# Startseite\n\n[Einrichtung](/guide/setup)\n");
+    writeFile("guide/setup.de.md", "# Einrichtung\n");
+  };
+
+  it("should split locale folders and suffixes from paths", () => {
+    const codes = ["en", "de"];
+    expect(splitLocalePath(path.join("de", "guide.md"), codes)).toEqual({
+      code: "de",
+      path: "guide.md",
+    });
+    expect(splitLocalePath(path.join("guide", "setup.de.md"), codes)).toEqual({
+      code: "de",
+      path: path.join("guide", "setup.md"),
+    });
+    expect(splitLocalePath("notes.v2.md", codes)).toEqual({
+      path: "notes.v2.md",
+    });
+    expect(splitLocalePath("de.md", codes)).toEqual({ path: "de.md" });
+  });
+
+  it("should translate UI strings with config overrides", () => {
+    expect(getUiStrings().next).toBe("Next");
+    expect(getUiStrings("de").next).toBe("Weiter");
+    expect(getUiStrings("de-AT").next).toBe("Weiter");
+    expect(getUiStrings("ja", { next: "次" }).next).toBe("次");
+    expect(getUiStrings("fr").next).toBe("Next");
+  });
+
+  it("should resolve the default locale and report invalid entries", () => {
+    const config = loadConfig(site.docsDir);
+    config.locales = [
+      { code: "en" },
+      { code: "de", default: true },
+      { code: "de" },
+      { code: "not a code" },
+    ];
+
+    const { locales, diagnostics } = resolveLocales(config);
+    expect(
+      locales.map((locale) => [locale.code, locale.prefix, locale.default])
+    ).toEqual([
+      ["en", "/en", false],
+      ["de", "", true],
+    ]);
+    expect(diagnostics).toHaveLength(2);
+  });
+
+  it("should load each locale with fallbacks to the default locale", async () => {
+    writeLocalizedSite();
+    const config = loadConfig(site.docsDir);
+    const { sections } = await loadSiteSections(site.docsDir, config, {
+      ignore: [],
+    });
+    const [en, de] = sections;
+
+    expect(Array.from(en.index.byRoute.keys()).sort()).toEqual([
+      "/",
+      "/guide/setup",
+      "/guide/usage",
+    ]);
+    expect(de.prefix).toBe("/de");
+    expect(de.index.byRoute.get("/")!.title).toBe("Startseite");
+    expect(de.index.byRoute.get("/guide/setup")!.title).toBe("Einrichtung");
+    expect(Array.from(de.fallbacks)).toEqual(["/guide/usage"]);
+
+    expect(generateSidebar(en.index)[0].title).toBe("Guide");
+    expect(generateSidebar(de.index)[0].title).toBe("Anleitung");
+
+    // The untranslated page's broken link is reported once
+    const result = await checkSectionLinks(sections);
+    expect(result.broken.map((link) => link.href)).toEqual(["/missing"]);
+    expect(result.valid).toHaveLength(2);
+  });
+
+  it("should build locales under their prefix with a language switcher", async () => {
+    writeLocalizedSite();
+    await buildStaticSite({
+      dir: site.docsDir,
+      out: site.outDir,
+      strict: false,
+      concurrency: 1,
+    });
+
+    const home = read("de", "index.html");
+    expect(home).toContain('<html lang="de">');
+    expect(home).toContain('<a href="/de/guide/setup">Einrichtung</a>');
+    expect(home).toContain('<a href="/" hreflang="en" lang="en">English</a>');
+    expect(home).toContain('data-index="/de/search-index.json"');
+    expect(home).toContain(">Weiter<");
+    expect(home).not.toContain("translation-notice");
+
+    const usage = read("de", "guide", "usage", "index.html");
+    expect(usage).toContain('class="translation-notice"');
+    expect(usage).toContain("<h1");
+    expect(read("guide", "usage", "index.html")).not.toContain(
+      'class="translation-notice"'
+    );
+  });
+
+  it("should combine locales with versions", async () => {
+    writeLocalizedSite(["versions:", "  - name: v1", "    dir: ."]);
+    await buildStaticSite({
+      dir: site.docsDir,
+      out: site.outDir,
+      strict: false,
+      concurrency: 1,
+    });
+
+    expect(read("v1", "de", "guide", "setup", "index.html")).toContain(
+      '<a href="/v1/guide/setup" hreflang="en" lang="en">English</a>'
+    );
+    expect(read("latest", "de", "guide", "setup", "index.html")).toContain(
+      'content="0; url=/v1/de/guide/setup"'
+    );
+    expect(read("index.html")).toContain('content="0; url=/v1/"');
+  });
+
+  it("should serve locales under their prefix in the dev server", async () => {
+    writeLocalizedSite();
+    await buildStaticSite({
+      dir: site.docsDir,
+      out: site.outDir,
+      strict: false,
+      concurrency: 1,
+    });
+    const server = new MarkrealmServer({ port: 0, docsDir: site.docsDir });
+    await server.load();
+
+    const reloadClient =
+      '\n    <script src="/reload-client.js"></script>\n    ';
+    for (const [route, output] of [
+      ["/de/guide/setup", ["de", "guide", "setup", "index.html"]],
+      ["/de/guide/usage", ["de", "guide", "usage", "index.html"]],
+      ["/guide/setup", ["guide", "setup", "index.html"]],
+    ] as [string, string[]][]) {
+      const { status, html } = await server.renderRoute(route);
+      expect(status).toBe(200);
+      expect(html.replace(reloadClient, "")).toBe(read(...output));
+    }
+
+    // Translations are not pages of the default locale
+    expect((await server.renderRoute("/guide/setup.de")).status).toBe(404);
+    expect(read("guide", "setup", "index.html")).not.toContain("setup.de");
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect } from "vitest";
+import {
+  renderMarkdocToHtml,
+  resolveLinkTarget,
+  slugify,
+} from "../src/content/markdoc";
+
+describe("Markdoc Rendering", () => {
+  it("should extract headings with slug ids", () => {
+    const result = renderMarkdocToHtml(
+      "# Getting Started\n\n## Install `markrealm`\n\n### Next steps!\n"
+    );
+
+    expect(result.headings).toEqual([
+      { level: 1, text: "Getting Started", id: "getting-started" },
+      { level: 2, text: "Install markrealm", id: "install-markrealm" },
+      { level: 3, text: "Next steps!", id: "next-steps" },
+    ]);
+  });
+
+  it("should render id attributes on headings", () => {
+    const result = renderMarkdocToHtml("## Configuration Options\n");
+    expect(result.html).toContain(
+      '<h2 id="configuration-options">Configuration Options</h2>'
+    );
+  });
+
+  it("should de-duplicate repeated heading ids", () => {
+    const result = renderMarkdocToHtml("## Setup\n\n## Setup\n\n## Setup\n");
+    expect(result.headings.map((heading) => heading.id)).toEqual([
+      "setup",
+      "setup-1",
+      "setup-2",
+    ]);
+
+    // Suffixes skip ids that other headings already use
+    const clashing = renderMarkdocToHtml(
+      "## Setup 1\n\n## Setup\n\n## Setup\n\n## Setup\n\n## Setup 1\n"
+    );
+    expect(clashing.headings.map((heading) => heading.id)).toEqual([
+      "setup-1",
+      "setup",
+      "setup-2",
+      "setup-3",
+      "setup-1-1",
+    ]);
+  });
+
+  it("should keep explicit heading ids", () => {
+    const result = renderMarkdocToHtml("## Setup {% #custom-id %}\n");
+    expect(result.headings[0].id).toBe("custom-id");
+    expect(result.html).toContain('id="custom-id"');
+  });
+
+  it("should extract internal and external links", () => {
+    const result = renderMarkdocToHtml(
+      "See [the guide](./setup.md#install) and [Markdoc](https://markdoc.dev).\n",
+      { route: "/guide/intro" }
+    );
+
+    expect(result.links).toEqual([
+      {
+        href: "./setup.md#install",
+        text: "the guide",
+        type: "internal",
+        target: "/guide/setup",
+        hash: "install",
+      },
+      { href: "https://markdoc.dev", text: "Markdoc", type: "external" },
+    ]);
+  });
+
+  it("should render internal links as the route they resolve to", () => {
+    const result = renderMarkdocToHtml(
+      "See [setup](./setup.md#install), [the API](../api/) and [below](#usage).\n",
+      { route: "/guide/intro" }
+    );
+
+    expect(result.html).toContain('<a href="/guide/setup#install">setup</a>');
+    expect(result.html).toContain('<a href="/api">the API</a>');
+    expect(result.html).toContain('<a href="#usage">below</a>');
+  });
+});
+
+describe("Link Target Resolution", () => {
+  it("should resolve relative links against the document directory", () => {
+    expect(resolveLinkTarget("advanced", { route: "/guide/intro" })).toEqual({
+      target: "/guide/advanced",
+      hash: undefined,
+    });
+    expect(
+      resolveLinkTarget("../api/reference.md", { route: "/guide/intro" })
+    ).toEqual({ target: "/api/reference", hash: undefined });
+  });
+
+  it("should resolve relative links from index files", () => {
+    expect(
+      resolveLinkTarget("advanced.md", { route: "/guide", isIndex: true })
+    ).toEqual({ target: "/guide/advanced", hash: undefined });
+  });
+
+  it("should resolve same-page anchors to the current route", () => {
+    expect(resolveLinkTarget("#usage", { route: "/guide/intro" })).toEqual({
+      target: "/guide/intro",
+      hash: "usage",
+    });
+  });
+
+  it("should normalize index and trailing slashes", () => {
+    expect(resolveLinkTarget("/guide/index.md").target).toBe("/guide");
+    expect(resolveLinkTarget("/guide/").target).toBe("/guide");
+    expect(resolveLinkTarget("/index.md").target).toBe("/");
+  });
+});
+
+describe("Slugify", () => {
+  it("should create URL-safe slugs", () => {
+    expect(slugify("Hello, World!")).toBe("hello-world");
+    expect(slugify("  Multiple   spaces  ")).toBe("multiple-spaces");
+  });
+});
+
+describe("Markdoc Validation", () => {
+  it("should report validation errors with file and line", () => {
+    const result = renderMarkdocToHtml(
+      '---\ntitle: Test\n---\n\n# Test\n\n{% callout type="bogus" %}\nText\n{% /callout %}\n',
+      { filePath: "/docs/test.md" }
+    );
+
+    expect(result.diagnostics).toEqual([
+      {
+        file: "/docs/test.md",
+        line: 7,
+        column: undefined,
+        severity: "error",
+        message: expect.stringContaining("Attribute 'type' must match"),
+      },
+    ]);
+  });
+
+  it("should report unknown tags", () => {
+    const result = renderMarkdocToHtml("{% nope %}\n{% /nope %}\n");
+    expect(result.diagnostics).toHaveLength(1);
+    expect(result.diagnostics[0].line).toBe(1);
+    expect(result.diagnostics[0].message).toContain("nope");
+  });
+
+  it("should return no diagnostics for valid content", () => {
+    const result = renderMarkdocToHtml(
+      "# Valid\n\n{% badge %}OK{% /badge %}\n"
+    );
+    expect(result.diagnostics).toEqual([]);
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect } from "vitest";
+import { DocMeta, SiteConfig } from "../src/content/types";
+import { loadConfig } from "../src/config";
+import { buildStaticSite } from "../src/build";
+import { MarkrealmServer } from "../src/server";
+import { getPageMetadata } from "../src/metadata";
+import { useTempSite } from "./helpers";
+
+const makeDoc = (html: string, frontMatter = {}): DocMeta => ({
+  path: "/docs/guide/setup.md",
+  route: "/guide/setup",
+  title: "Setup",
+  headings: [],
+  frontMatter,
+  links: [],
+  html,
+  diagnostics: [],
+});
+
+describe("Page Metadata", () => {
+  const config = (site: Partial<SiteConfig["site"]> = {}): SiteConfig => {
+    const defaults = loadConfig("/nonexistent");
+    return { ...defaults, site: { ...defaults.site, ...site } };
+  };
+  const navigation = {
+    breadcrumbs: [
+      { title: "Guide", route: "/guide" },
+      { title: "Install" },
+      { title: "Setup", route: "/guide/setup" },
+    ],
+  };
+
+  it("should prefer front matter over the page and site defaults", () => {
+    const meta = getPageMetadata(
+      makeDoc("<p>First paragraph.</p>", {
+        description: "Set it up",
+        image: "/img/setup.png",
+        keywords: "setup, install",
+      }),
+      navigation,
+      config({
+        baseUrl: "https://example.com/docs/",
+        description: "Site docs",
+        image: "/img/site.png",
+        keywords: ["docs"],
+      }),
+      "https://example.com/docs/guide/setup",
+      "en"
+    );
+
+    expect(meta.description).toBe("Set it up");
+    expect(meta.image).toBe("https://example.com/docs/img/setup.png");
+    expect(meta.keywords).toEqual(["setup", "install"]);
+  });
+
+  it("should fall back to the first paragraph and the site defaults", () => {
+    const long = "word ".repeat(50).trim();
+    const site = config({
+      baseUrl: "/docs/",
+      description: "Site docs",
+      image: "img/site.png",
+      keywords: ["docs"],
+    });
+
+    const meta = getPageMetadata(
+      makeDoc(
+        "<h1>Setup</h1><p>Run <code>npm i</code> &amp; go.</p><p>More</p>"
+      ),
+      navigation,
+      site,
+      "",
+      "en"
+    );
+    expect(meta.description).toBe("Run npm i & go.");
+    expect(meta.image).toBe("/docs/img/site.png");
+    expect(meta.keywords).toEqual(["docs"]);
+
+    const summary = getPageMetadata(
+      makeDoc(`<p>${long}</p>`),
+      navigation,
+      site,
+      "",
+      "en"
+    ).description;
+    expect(summary.length).toBeLessThanOrEqual(160);
+    expect(summary).toMatch(/ word…$/);
+
+    expect(
+      getPageMetadata(
+        makeDoc("<ul><li>x</li></ul>"),
+        navigation,
+        site,
+        "",
+        "en"
+      ).description
+    ).toBe("Site docs");
+  });
+
+  it("should describe the page and its breadcrumbs as JSON-LD", () => {
+    const meta = getPageMetadata(
+      makeDoc("<p>Ends &lt;/script&gt; here</p>"),
+      navigation,
+      config({ baseUrl: "https://example.com" }),
+      "https://example.com/guide/setup",
+      "de"
+    );
+
+    expect(meta.jsonLd[0]).not.toContain("</script>");
+    expect(JSON.parse(meta.jsonLd[0])).toEqual({
+      "@context": "https://schema.org",
+      "@type": "TechArticle",
+      headline: "Setup",
+      description: "Ends </script> here",
+      url: "https://example.com/guide/setup",
+      inLanguage: "de",
+      isPartOf: {
+        "@type": "WebSite",
+        name: "My Docs",
+        url: "https://example.com/",
+      },
+    });
+    expect(JSON.parse(meta.jsonLd[1]).itemListElement).toEqual([
+      {
+        "@type": "ListItem",
+        position: 1,
+        name: "Guide",
+        item: "https://example.com/guide",
+      },
+      { "@type": "ListItem", position: 2, name: "Install" },
+      {
+        "@type": "ListItem",
+        position: 3,
+        name: "Setup",
+        item: "https://example.com/guide/setup",
+      },
+    ]);
+
+    const hidden = getPageMetadata(
+      makeDoc("", { noindex: true }),
+      navigation,
+      config(),
+      "",
+      "en"
+    );
+    expect(hidden.jsonLd).toEqual([]);
+  });
+
+  describe("in rendered pages", () => {
+    const site = useTempSite("meta");
+    const { writeFile, read } = site;
+
+    it("should add Open Graph and Twitter tags in dev and build", async () => {
+      writeFile(
+        "markrealm.config.yaml",
+        [
+          "site:",
+          "  title: Acme",
+          "  baseUrl: https://example.com/",
+          "  image: /social.png",
+          "  twitter: '@acme'",
+          "socialCards:",
+          "  enabled: false",
+          "",
+        ].join("\n")
+      );
+      writeFile("index.md", '# Home\n\nTools for "builders".\n');
+      await buildStaticSite({
+        dir: site.docsDir,
+        out: site.outDir,
+        concurrency: 1,
+      });
+
+      const html = read("index.html");
+      for (const tag of [
+        '<meta name="description" content="Tools for &#34;builders&#34;." />',
+        '<meta property="og:title" content="Home" />',
+        '<meta property="og:url" content="https://example.com/" />',
+        '<meta property="og:image" content="https://example.com/social.png" />',
+        '<meta name="twitter:card" content="summary_large_image" />',
+        '<meta name="twitter:site" content="@acme" />',
+        '<script type="application/ld+json">{"@context":"https://schema.org","@type":"TechArticle"',
+      ]) {
+        expect(html).toContain(tag);
+      }
+
+      const server = new MarkrealmServer({ port: 0, docsDir: site.docsDir });
+      await server.load();
+      const { html: devHtml } = await server.renderRoute("/");
+      expect(devHtml).toContain(
+        '<meta property="og:image" content="https://example.com/social.png" />'
+      );
+    });
+  });
+});
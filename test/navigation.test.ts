@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import { ContentIndex, DocMeta, SidebarItem } from "../src/content/types";
+import {
+  getNavigationDiagnostics,
+  getPageNavigation,
+} from "../src/content/navigation";
+
+const makeDoc = (route: string, title: string, frontMatter = {}): DocMeta => ({
+  path: `/docs${route === "/" ? "/index" : route}.md`,
+  route,
+  title,
+  headings: [],
+  frontMatter,
+  links: [],
+  html: "",
+  diagnostics: [],
+});
+
+const makeIndex = (docs: DocMeta[]): ContentIndex => ({
+  byRoute: new Map(docs.map((doc) => [doc.route, doc])),
+  byPath: new Map(docs.map((doc) => [doc.path, doc])),
+  categories: new Map(),
+});
+
+describe("Page Navigation", () => {
+  const docs = [
+    makeDoc("/", "Home"),
+    makeDoc("/intro", "Introduction"),
+    makeDoc("/guide", "Guide"),
+    makeDoc("/guide/setup", "Setup"),
+    makeDoc("/guide/deploy", "Deploy"),
+  ];
+  const index = makeIndex(docs);
+  const sidebar: SidebarItem[] = [
+    { title: "Introduction", route: "/intro" },
+    {
+      title: "Guide",
+      route: "/guide",
+      children: [
+        { title: "Setup", route: "/guide/setup" },
+        { title: "GitHub", href: "https://github.com" },
+        { title: "Deploy", route: "/guide/deploy" },
+      ],
+    },
+  ];
+
+  it("should link to neighbouring pages in sidebar order", () => {
+    const navigation = getPageNavigation(docs[3], sidebar, index);
+    expect(navigation.prev).toEqual({ title: "Guide", route: "/guide" });
+    expect(navigation.next).toEqual({
+      title: "Deploy",
+      route: "/guide/deploy",
+    });
+  });
+
+  it("should start from the home page", () => {
+    expect(getPageNavigation(docs[0], sidebar, index)).toMatchObject({
+      prev: undefined,
+      next: { route: "/intro" },
+    });
+    expect(getPageNavigation(docs[1], sidebar, index).prev).toEqual({
+      title: "Home",
+      route: "/",
+    });
+    expect(getPageNavigation(docs[4], sidebar, index).next).toBeUndefined();
+  });
+
+  it("should build breadcrumbs from the sidebar tree", () => {
+    expect(getPageNavigation(docs[4], sidebar, index).breadcrumbs).toEqual([
+      { title: "Guide", route: "/guide" },
+      { title: "Deploy", route: "/guide/deploy" },
+    ]);
+    expect(getPageNavigation(docs[0], sidebar, index).breadcrumbs).toEqual([]);
+  });
+
+  it("should let front matter override or disable links", () => {
+    const doc = makeDoc("/guide/setup", "Setup", {
+      prev: false,
+      next: "intro.md",
+    });
+    const navigation = getPageNavigation(doc, sidebar, index);
+    expect(navigation.prev).toBeUndefined();
+    expect(navigation.next).toEqual({ title: "Introduction", route: "/intro" });
+  });
+
+  it("should report overrides that name a missing page", () => {
+    const doc = makeDoc("/guide/setup", "Setup", {
+      prev: "intro.md",
+      next: "guide/deply.md",
+    });
+    expect(getPageNavigation(doc, sidebar, index).next).toBeUndefined();
+    expect(getNavigationDiagnostics([doc], index)).toEqual([
+      {
+        file: "/docs/guide/setup.md",
+        severity: "error",
+        message: "`next`: page `guide/deply.md` does not exist",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi } from "vitest";
+import { buildStaticSite } from "../src/build";
+import { MarkrealmServer } from "../src/server";
+import { resolveRedirects } from "../src/redirects";
+import { useTempSite } from "./helpers";
+
+describe("Redirects", () => {
+  const site = useTempSite("redirects");
+  const { writeFile, read } = site;
+
+  const redirect = (from: string, to: string) => ({
+    from,
+    to,
+    file: "docs/markrealm.config.yaml",
+  });
+
+  it("should report collisions, chains and missing targets", () => {
+    const routes = new Set(["/", "/guide", "/setup"]);
+    const { redirects, diagnostics } = resolveRedirects(
+      [
+        redirect("/guide", "/setup"),
+        redirect("/old", "/guide#intro"),
+        redirect("/old", "/setup"),
+        redirect("/older", "/old"),
+        redirect("/gone", "/nowhere"),
+        redirect("/repo", "https://github.com/acme/docs"),
+      ],
+      routes
+    );
+
+    expect(Object.fromEntries(redirects)).toEqual({
+      "/old": "/guide#intro",
+      "/older": "/old",
+      "/gone": "/nowhere",
+      "/repo": "https://github.com/acme/docs",
+    });
+    expect(diagnostics.map((d) => d.message)).toEqual([
+      "Redirect from /guide: collides with an existing page",
+      "Redirect from /old: already redirects to /guide#intro",
+      "Redirect from /older: leads through other redirects: /older -> /old -> /guide#intro",
+      "Redirect from /gone: points to /nowhere, which is not a page",
+    ]);
+  });
+
+  it("should generate redirect pages and host redirect files", async () => {
+    writeFile(
+      "markrealm.config.yaml",
+      [
+        "site:",
+        "  baseUrl: /docs/",
+        "redirects:",
+        "  /repo: https://github.com/acme/docs",
+        "redirectFiles: [netlify, vercel]",
+        "",
+      ].join("\n")
+    );
+    writeFile("index.md", "# Home\n\nSee the [old setup](/install).\n");
+    writeFile(
+      "guide/setup.md",
+      "---\naliases: [/install, /guide/install/]\n---\n\n# Setup\n"
+    );
+    await buildStaticSite({
+      dir: site.docsDir,
+      out: site.outDir,
+      concurrency: 1,
+    });
+
+    expect(read("install", "index.html")).toContain(
+      'content="0; url=/docs/guide/setup"'
+    );
+    expect(read("guide", "install", "index.html")).toContain(
+      'content="0; url=/docs/guide/setup"'
+    );
+    expect(read("repo", "index.html")).toContain(
+      'content="0; url=https://github.com/acme/docs"'
+    );
+    expect(read("_redirects")).toBe(
+      [
+        "/docs/repo https://github.com/acme/docs 301",
+        "/docs/install /docs/guide/setup 301",
+        "/docs/guide/install /docs/guide/setup 301",
+        "",
+      ].join("\n")
+    );
+    expect(JSON.parse(read("vercel.json")).redirects[1]).toEqual({
+      source: "/docs/install",
+      destination: "/docs/guide/setup",
+      permanent: true,
+    });
+
+    // The link to the alias works, but is reported
+    const output = vi
+      .mocked(console.log)
+      .mock.calls.map((args) => args.join(" "))
+      .join("\n");
+    expect(output).toContain("Links to redirected routes: 1");
+    expect(output).toContain("/install (old setup)");
+  });
+
+  it("should escape redirect targets in the page", async () => {
+    writeFile(
+      "markrealm.config.yaml",
+      [
+        "redirects:",
+        `  /search: 'https://example.com/?q="></a></script><script>alert(1)</script>&x=1'`,
+        "",
+      ].join("\n")
+    );
+    writeFile("index.md", "# Home\n");
+    await buildStaticSite({
+      dir: site.docsDir,
+      out: site.outDir,
+      concurrency: 1,
+    });
+
+    const page = read("search", "index.html");
+    expect(page).toContain(
+      'href="https://example.com/?q=&quot;&gt;&lt;/a&gt;&lt;/script&gt;&lt;script&gt;alert(1)&lt;/script&gt;&amp;x=1"'
+    );
+    expect(page).toContain(
+      'location.replace("https://example.com/?q=\\">\\u003c/a>\\u003c/script>\\u003cscript>alert(1)\\u003c/script>&x=1" + location.hash);'
+    );
+    expect(page).not.toContain("<script>alert");
+  });
+
+  it("should fail the build when an alias collides with a page", async () => {
+    writeFile("index.md", "# Home\n");
+    writeFile("setup.md", "---\naliases: /\n---\n\n# Setup\n");
+    const exit = vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+
+    await expect(
+      buildStaticSite({ dir: site.docsDir, out: site.outDir, concurrency: 1 })
+    ).rejects.toThrow("exit");
+    expect(exit).toHaveBeenCalledWith(1);
+  });
+
+  it("should answer aliases with a redirect in dev", async () => {
+    writeFile("markrealm.config.yaml", "site:\n  baseUrl: /docs/\n");
+    writeFile("index.md", "# Home\n");
+    writeFile("setup.md", "---\naliases: [/install]\n---\n\n# Setup\n");
+
+    const server = new MarkrealmServer({ port: 0, docsDir: site.docsDir });
+    await server.load();
+    expect(server.getRedirect("/install")).toBe("/docs/setup");
+    expect(server.getRedirect("/setup")).toBeUndefined();
+  });
+});
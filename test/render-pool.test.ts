@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { RenderPool } from "../src/render-pool";
+import { buildStaticSite } from "../src/build";
+
+// Reads every file below `dir` into a map keyed by relative path
+function readTree(dir: string, prefix = ""): Record<string, string> {
+  const files: Record<string, string> = {};
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const relative = path.join(prefix, entry.name);
+    if (entry.isDirectory()) {
+      Object.assign(files, readTree(path.join(dir, entry.name), relative));
+    } else {
+      files[relative] = fs.readFileSync(path.join(dir, entry.name), "utf8");
+    }
+  }
+  return files;
+}
+
+describe("Render Pool", () => {
+  let workDir: string;
+  let docsDir: string;
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), "markrealm-pool-"));
+    docsDir = path.join(workDir, "docs");
+    fs.mkdirSync(path.join(docsDir, "guide"), { recursive: true });
+    fs.writeFileSync(path.join(docsDir, "index.md"), "# Home\n\nWelcome.\n");
+    fs.writeFileSync(
+      path.join(docsDir, "markrealm.schema.js"),
+      `module.exports = { variables: { product: "Markrealm" } };`
+    );
+    for (let i = 1; i <= 6; i++) {
+      fs.writeFileSync(
+        path.join(docsDir, "guide", `page-${i}.md`),
+        `---\ntitle: Page ${i}\n---\n\n## {% $product %} ${i}\n\n{% callout %}Note ${i}{% /callout %}\n`
+      );
+    }
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it("should parse documents on worker threads with the site schema", async () => {
+    const pool = new RenderPool(2, docsDir);
+    try {
+      const doc = await pool.run({
+        type: "document",
+        filePath: path.join(docsDir, "guide", "page-1.md"),
+        route: "/guide/page-1",
+        content: "# Title\n\n{% $product %}\n",
+      });
+      expect(doc.title).toBe("Title");
+      expect(doc.html).toContain("Markrealm");
+    } finally {
+      await pool.close();
+    }
+  });
+
+  it("should produce the same output as a serial build", async () => {
+    const serialOut = path.join(workDir, "serial");
+    const parallelOut = path.join(workDir, "parallel");
+
+    await buildStaticSite({
+      dir: docsDir,
+      out: serialOut,
+      cache: false,
+      concurrency: 1,
+    });
+    await buildStaticSite({
+      dir: docsDir,
+      out: parallelOut,
+      cache: false,
+      concurrency: 3,
+    });
+
+    const serial = readTree(serialOut);
+    expect(serial[path.join("guide", "page-6", "index.html")]).toContain(
+      "Markrealm 6"
+    );
+    expect(readTree(parallelOut)).toEqual(serial);
+  });
+});
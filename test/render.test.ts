@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { buildStaticSite } from "../src/build";
+import { MarkrealmServer } from "../src/server";
+import { renderSidebar } from "../src/render";
+import { useTempSite } from "./helpers";
+
+// The only line dev pages have on top of the static build
+const RELOAD_CLIENT = '\n    <script src="/reload-client.js"></script>\n    ';
+
+describe("Rendering", () => {
+  const site = useTempSite("render");
+  const { writeFile, read } = site;
+
+  beforeEach(() => {
+    writeFile("markrealm.config.yaml", "site:\n  title: Render Docs\n");
+    writeFile("index.md", "# Home\n\nWelcome to the [guide](/guide).\n");
+    writeFile("guide/index.md", "# Guide\n\n## Overview\n\nStart here.\n");
+    writeFile(
+      "guide/setup.md",
+      "---\nsidebar_position: 1\n---\n\n# Setup\n\n## Install\n\nRun it.\n"
+    );
+    writeFile(
+      "guide/advanced/tuning.md",
+      "# Tuning\n\n## Caches\n\n{% callout %}Careful.{% /callout %}\n"
+    );
+  });
+
+  const buildAndLoad = async () => {
+    await buildStaticSite({
+      dir: site.docsDir,
+      out: site.outDir,
+      concurrency: 1,
+    });
+    const server = new MarkrealmServer({ port: 0, docsDir: site.docsDir });
+    await server.load();
+    return server;
+  };
+
+  it("should render pages the same in dev and build mode", async () => {
+    const server = await buildAndLoad();
+
+    const routes: [string, string[]][] = [
+      ["/", ["index.html"]],
+      ["/guide", ["guide", "index.html"]],
+      ["/guide/setup", ["guide", "setup", "index.html"]],
+      ["/guide/advanced/tuning", ["guide", "advanced", "tuning", "index.html"]],
+    ];
+    for (const [route, output] of routes) {
+      const { status, html } = await server.renderRoute(route);
+      expect(status).toBe(200);
+      expect(html).toContain(RELOAD_CLIENT);
+      expect(html.replace(RELOAD_CLIENT, "")).toBe(read(...output));
+    }
+
+    // Three levels deep, which the dev sidebar used to flatten
+    expect(read("guide", "setup", "index.html")).toMatchSnapshot();
+  });
+
+  it("should render the 404 page from the templates in both modes", async () => {
+    const server = await buildAndLoad();
+
+    const { status, html } = await server.renderRoute("/missing");
+    expect(status).toBe(404);
+    expect(html.replace(RELOAD_CLIENT, "")).toBe(read("404.html"));
+    expect(read("404.html")).toMatchSnapshot();
+  });
+
+  it("should render nested sidebar sections", () => {
+    expect(
+      renderSidebar([
+        { title: "Home", route: "/" },
+        { separator: true, title: "" },
+        {
+          title: "Guide",
+          route: "/guide",
+          collapsed: true,
+          children: [
+            { title: "Setup", route: "/guide/setup" },
+            {
+              title: "Advanced",
+              children: [{ title: "Tuning", route: "/guide/advanced/tuning" }],
+            },
+          ],
+        },
+        { title: "GitHub", href: "https://github.com", icon: "★" },
+      ])
+    ).toMatchSnapshot();
+  });
+
+  it("should escape sidebar titles, icons and links", () => {
+    const html = renderSidebar([
+      { title: "Setup <script>alert(1)</script>", route: "/guide/setup" },
+      { title: "Q&A", href: 'https://example.com/?a="b"', icon: "<b>" },
+    ]);
+
+    expect(html).not.toContain("<script>");
+    expect(html).toContain("Setup &lt;script&gt;alert(1)&lt;/script&gt;");
+    expect(html).toContain('href="https://example.com/?a=&quot;b&quot;"');
+    expect(html).toContain(
+      '<span class="sidebar-icon">&lt;b&gt;</span> Q&amp;A'
+    );
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { loadMarkdocSchema, isSchemaFile } from "../src/content/schema";
+import { renderMarkdocToHtml } from "../src/content/markdoc";
+import { buildContentIndex } from "../src/content/loader";
+
+describe("Markdoc Schema", () => {
+  let docsDir: string;
+
+  beforeEach(() => {
+    docsDir = fs.mkdtempSync(path.join(os.tmpdir(), "markrealm-schema-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(docsDir, { recursive: true, force: true });
+  });
+
+  it("should return an empty schema when no schema file exists", () => {
+    expect(loadMarkdocSchema(docsDir)).toEqual({ schema: {}, diagnostics: [] });
+  });
+
+  it("should compile TypeScript schema files", () => {
+    const schemaFile = path.join(docsDir, "markrealm.schema.ts");
+    fs.writeFileSync(
+      schemaFile,
+      `import type { Config } from "@markdoc/markdoc";
+      const variables: Config["variables"] = { product: "Markrealm" };
+      export default { variables };`
+    );
+    expect(loadMarkdocSchema(docsDir).schema.variables).toEqual({
+      product: "Markrealm",
+    });
+
+    // Edits are picked up on the next load
+    fs.writeFileSync(
+      schemaFile,
+      `export default { variables: { product: "Edited" } };`
+    );
+    expect(loadMarkdocSchema(docsDir).schema.variables).toEqual({
+      product: "Edited",
+    });
+  });
+
+  it("should report a schema file that fails to load", () => {
+    const schemaFile = path.join(docsDir, "markrealm.schema.js");
+    fs.writeFileSync(schemaFile, "module.exports = {");
+
+    const { schema, diagnostics } = loadMarkdocSchema(docsDir);
+    expect(schema).toEqual({});
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ file: schemaFile, severity: "error" }),
+    ]);
+  });
+
+  it("should load tags, functions and variables from the schema file", () => {
+    fs.writeFileSync(
+      path.join(docsDir, "markrealm.schema.js"),
+      `module.exports = {
+        tags: { note: { render: "aside", attributes: { kind: { type: String } } } },
+        functions: { upper: { transform: (p) => String(p[0]).toUpperCase() } },
+        variables: { product: "Markrealm" },
+      };`
+    );
+
+    const { schema } = loadMarkdocSchema(docsDir);
+    const result = renderMarkdocToHtml(
+      '{% note kind="tip" %}{% upper($product) %}{% /note %}\n',
+      { schema }
+    );
+
+    expect(result.html).toContain('<aside kind="tip">');
+    expect(result.html).toContain("MARKREALM");
+  });
+
+  it("should apply the schema inside partials", async () => {
+    fs.writeFileSync(
+      path.join(docsDir, "markrealm.schema.js"),
+      `module.exports = {
+        tags: { note: { render: "aside" } },
+        variables: { product: "Markrealm" },
+      };`
+    );
+    fs.mkdirSync(path.join(docsDir, "_partials"));
+    fs.writeFileSync(
+      path.join(docsDir, "_partials", "intro.md"),
+      "{% note %}Welcome to {% $product %}{% /note %}\n"
+    );
+    fs.writeFileSync(
+      path.join(docsDir, "index.md"),
+      '# Home\n\n{% partial file="_partials/intro.md" /%}\n'
+    );
+
+    const index = await buildContentIndex(docsDir, {
+      ignore: [],
+      partials: ["_partials"],
+      schema: loadMarkdocSchema(docsDir).schema,
+    });
+
+    expect(Array.from(index.byRoute.keys())).toEqual(["/"]);
+    expect(index.byRoute.get("/")!.html).toContain(
+      "<aside>Welcome to Markrealm</aside>"
+    );
+    expect(index.byRoute.get("/")!.diagnostics).toEqual([]);
+  });
+
+  it("should expose front matter as a variable", () => {
+    const result = renderMarkdocToHtml(
+      "---\nversion: 2.1\n---\n\nVersion {% $frontmatter.version %}\n"
+    );
+    expect(result.html).toContain("Version 2.1");
+  });
+
+  it("should recognize schema file names", () => {
+    expect(isSchemaFile("/docs/markrealm.schema.ts")).toBe(true);
+    expect(isSchemaFile("/docs/markrealm.config.yaml")).toBe(false);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { ContentIndex } from "../src/content/types";
+import { renderMarkdocToHtml } from "../src/content/markdoc";
+import { buildSearchIndex, htmlToText } from "../src/content/search";
+
+const makeIndex = (
+  pages: Array<{ route: string; src: string }>
+): ContentIndex => {
+  const index: ContentIndex = {
+    byRoute: new Map(),
+    byPath: new Map(),
+    categories: new Map(),
+  };
+  for (const page of pages) {
+    const result = renderMarkdocToHtml(page.src);
+    const doc = {
+      path: `/docs${page.route}.md`,
+      route: page.route,
+      title: result.frontMatter.title || result.headings[0]?.text,
+      headings: result.headings,
+      frontMatter: result.frontMatter,
+      links: result.links,
+      html: result.html,
+      diagnostics: [],
+    };
+    index.byRoute.set(doc.route, doc);
+    index.byPath.set(doc.path, doc);
+  }
+  return index;
+};
+
+describe("Search Index", () => {
+  it("should create one entry per section with anchors", () => {
+    const index = makeIndex([
+      {
+        route: "/guide",
+        src: "# Guide\n\nIntro text.\n\n## Install\n\nRun `npm i`.\n\n## Usage\n\nCall it.\n",
+      },
+    ]);
+
+    expect(buildSearchIndex(index)).toEqual([
+      {
+        url: "/guide",
+        title: "Guide",
+        section: undefined,
+        text: "Intro text.",
+      },
+      {
+        url: "/guide#install",
+        title: "Guide",
+        section: "Install",
+        text: "Run npm i.",
+      },
+      {
+        url: "/guide#usage",
+        title: "Guide",
+        section: "Usage",
+        text: "Call it.",
+      },
+    ]);
+  });
+
+  it("should order entries by route and skip excluded pages", () => {
+    const index = makeIndex([
+      { route: "/b", src: "# B\n\nSecond.\n" },
+      { route: "/a", src: "# A\n\nFirst.\n" },
+      { route: "/hidden", src: "---\nsearch: false\n---\n# Hidden\n\nNo.\n" },
+    ]);
+
+    expect(buildSearchIndex(index).map((entry) => entry.url)).toEqual([
+      "/a",
+      "/b",
+    ]);
+  });
+
+  it("should convert HTML to plain text", () => {
+    expect(htmlToText("<p>Use <code>&lt;tag&gt;</code> &amp; more</p>")).toBe(
+      "Use <tag> & more"
+    );
+  });
+});
@@ -1,5 +1,15 @@
 import { describe, it, expect } from "vitest";
-import { SidebarItem } from "../src/content/types";
+import {
+  CategoryMeta,
+  ContentIndex,
+  DocMeta,
+  SidebarItem,
+} from "../src/content/types";
+import {
+  generateSidebar,
+  resolveSidebars,
+  selectSidebar,
+} from "../src/content/sidebar";
 
 // Mock the sidebar generation function
 const mockGenerateSidebar = (
@@ -109,3 +119,283 @@ describe("Sidebar Generation", () => {
     expect(sidebar).toHaveLength(0);
   });
 });
+
+const makeIndex = (
+  docs: Array<Partial<DocMeta> & { path: string; route: string }>,
+  categories: Record<string, CategoryMeta> = {}
+): ContentIndex => {
+  const index: ContentIndex = {
+    byRoute: new Map(),
+    byPath: new Map(),
+    categories: new Map(Object.entries(categories)),
+  };
+  for (const doc of docs) {
+    const meta: DocMeta = {
+      title: "Untitled",
+      headings: [],
+      frontMatter: {},
+      links: [],
+      html: "",
+      diagnostics: [],
+      ...doc,
+    };
+    index.byRoute.set(meta.route, meta);
+    index.byPath.set(meta.path, meta);
+  }
+  return index;
+};
+
+describe("generateSidebar", () => {
+  const docs = [
+    { path: "/docs/index.md", route: "/", title: "Home" },
+    {
+      path: "/docs/guide/getting-started.md",
+      route: "/guide/getting-started",
+      title: "Getting Started",
+    },
+    {
+      path: "/docs/guide/advanced.md",
+      route: "/guide/advanced",
+      title: "Advanced Features",
+    },
+    {
+      path: "/docs/api/reference.md",
+      route: "/api/reference",
+      title: "API Reference",
+    },
+    { path: "/docs/about.md", route: "/about", title: "About" },
+  ];
+
+  it("should build a tree from the directory structure", () => {
+    const sidebar = generateSidebar(makeIndex(docs));
+
+    expect(sidebar.map((item) => item.title)).toEqual([
+      "Api",
+      "Guide",
+      "About",
+    ]);
+    const guide = sidebar.find((item) => item.title === "Guide");
+    expect(guide?.route).toBeUndefined();
+    expect(guide?.children?.map((child) => child.title)).toEqual([
+      "Advanced Features",
+      "Getting Started",
+    ]);
+  });
+
+  it("should leave the root index page out of the sidebar", () => {
+    const sidebar = generateSidebar(
+      makeIndex([{ path: "/docs/index.md", route: "/", title: "Home" }])
+    );
+    expect(sidebar).toHaveLength(0);
+  });
+
+  it("should nest deeper folders", () => {
+    const sidebar = generateSidebar(
+      makeIndex([
+        {
+          path: "/docs/guide/deploy/netlify.md",
+          route: "/guide/deploy/netlify",
+          title: "Netlify",
+        },
+      ])
+    );
+
+    expect(sidebar[0].title).toBe("Guide");
+    expect(sidebar[0].children?.[0].title).toBe("Deploy");
+    expect(sidebar[0].children?.[0].children?.[0].route).toBe(
+      "/guide/deploy/netlify"
+    );
+  });
+
+  it("should honor sidebar_position and sidebar_label front matter", () => {
+    const sidebar = generateSidebar(
+      makeIndex([
+        {
+          path: "/docs/zebra.md",
+          route: "/zebra",
+          title: "Zebra",
+          frontMatter: { sidebar_position: 1, sidebar_label: "First" },
+        },
+        { path: "/docs/alpha.md", route: "/alpha", title: "Alpha" },
+        {
+          path: "/docs/beta.md",
+          route: "/beta",
+          title: "Beta",
+          frontMatter: { sidebar_position: 2 },
+        },
+      ])
+    );
+
+    expect(sidebar.map((item) => item.title)).toEqual([
+      "First",
+      "Beta",
+      "Alpha",
+    ]);
+  });
+
+  it("should use index page front matter for section metadata", () => {
+    const sidebar = generateSidebar(
+      makeIndex([
+        {
+          path: "/docs/guide/index.md",
+          route: "/guide",
+          title: "Guide Overview",
+          frontMatter: {
+            sidebar_label: "User Guide",
+            sidebar_collapsed: true,
+            sidebar_icon: "📘",
+          },
+        },
+        {
+          path: "/docs/guide/setup.md",
+          route: "/guide/setup",
+          title: "Setup",
+        },
+      ])
+    );
+
+    expect(sidebar[0]).toMatchObject({
+      title: "User Guide",
+      route: "/guide",
+      collapsed: true,
+      icon: "📘",
+    });
+    expect(sidebar[0].children).toHaveLength(1);
+  });
+
+  it("should prefer _category.yaml metadata over index front matter", () => {
+    const sidebar = generateSidebar(
+      makeIndex(
+        [
+          {
+            path: "/docs/guide/index.md",
+            route: "/guide",
+            frontMatter: { sidebar_label: "From Index" },
+          },
+          { path: "/docs/api/index.md", route: "/api" },
+        ],
+        { "/guide": { label: "From Category", position: 2 } }
+      )
+    );
+
+    expect(sidebar.map((item) => item.title)).toEqual(["From Category", "Api"]);
+  });
+});
+
+describe("resolveSidebars", () => {
+  const index = makeIndex([
+    { path: "/docs/index.md", route: "/", title: "Home" },
+    { path: "/docs/intro.md", route: "/intro", title: "Introduction" },
+    {
+      path: "/docs/guides/setup.md",
+      route: "/guides/setup",
+      title: "Setup",
+      frontMatter: { sidebar_position: 1 },
+    },
+    {
+      path: "/docs/guides/deploy.md",
+      route: "/guides/deploy",
+      title: "Deploy",
+      frontMatter: { sidebar_position: 2 },
+    },
+    {
+      path: "/docs/api/index.md",
+      route: "/api",
+      title: "API Overview",
+    },
+    { path: "/docs/api/client.md", route: "/api/client", title: "Client" },
+  ]);
+
+  it("should fall back to the generated sidebar without definitions", () => {
+    const { sidebars, diagnostics } = resolveSidebars(index, {});
+    expect(diagnostics).toEqual([]);
+    expect(sidebars).toHaveLength(1);
+    expect(sidebars[0].items.map((item) => item.title)).toEqual([
+      "Api",
+      "Guides",
+      "Introduction",
+    ]);
+  });
+
+  it("should resolve pages, groups, links, separators and autogenerate", () => {
+    const { sidebars, diagnostics } = resolveSidebars(index, {
+      sidebars: {
+        docs: {
+          items: [
+            "index.md",
+            { page: "intro", label: "Start Here" },
+            {
+              group: "Guides",
+              collapsed: true,
+              items: [{ autogenerate: { dir: "guides" } }],
+            },
+            { separator: true },
+            { label: "GitHub", href: "https://github.com/markrealm" },
+          ],
+        },
+      },
+    });
+
+    expect(diagnostics).toEqual([]);
+    expect(sidebars[0].items).toEqual([
+      { title: "Home", route: "/" },
+      { title: "Start Here", route: "/intro" },
+      {
+        title: "Guides",
+        route: undefined,
+        collapsed: true,
+        icon: undefined,
+        children: [
+          { title: "Setup", route: "/guides/setup", position: 1 },
+          { title: "Deploy", route: "/guides/deploy", position: 2 },
+        ],
+      },
+      { title: "", separator: true },
+      { title: "GitHub", href: "https://github.com/markrealm" },
+    ]);
+  });
+
+  it("should report entries that point to missing pages", () => {
+    const { diagnostics } = resolveSidebars(
+      index,
+      {
+        sidebars: {
+          docs: {
+            items: [
+              "guides/missing",
+              { group: "Empty", items: [{ autogenerate: { dir: "nope" } }] },
+            ],
+          },
+        },
+      },
+      "/docs/markrealm.config.yaml"
+    );
+
+    expect(diagnostics).toEqual([
+      {
+        file: "/docs/markrealm.config.yaml",
+        severity: "error",
+        message: 'Sidebar "docs": page `guides/missing` does not exist',
+      },
+      {
+        file: "/docs/markrealm.config.yaml",
+        severity: "error",
+        message: 'Sidebar "docs": autogenerate dir `nope` has no pages',
+      },
+    ]);
+  });
+
+  it("should select sidebars by path prefix", () => {
+    const { sidebars } = resolveSidebars(index, {
+      sidebars: {
+        api: { prefix: "/api", items: [{ autogenerate: { dir: "api" } }] },
+        docs: { items: ["intro"] },
+      },
+    });
+
+    expect(selectSidebar(sidebars, "/api/client")[0].route).toBe("/api/client");
+    expect(selectSidebar(sidebars, "/api")[0].route).toBe("/api/client");
+    expect(selectSidebar(sidebars, "/intro")[0].route).toBe("/intro");
+    expect(selectSidebar(sidebars, "/apiary")[0].route).toBe("/intro");
+  });
+});
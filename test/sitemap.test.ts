@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import { execFileSync } from "child_process";
+import { buildStaticSite } from "../src/build";
+import { useTempSite } from "./helpers";
+
+describe("Sitemap", () => {
+  const site = useTempSite("sitemap");
+  const { writeFile, read } = site;
+
+  const git = (...args: string[]) =>
+    execFileSync(
+      "git",
+      ["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args],
+      {
+        cwd: site.docsDir,
+        stdio: "ignore",
+        env: { ...process.env, GIT_COMMITTER_DATE: "2024-03-01T12:00:00Z" },
+      }
+    );
+
+  it("should list indexable pages with their last change", async () => {
+    writeFile(
+      "markrealm.config.yaml",
+      "site:\n  baseUrl: https://example.com/docs/\n"
+    );
+    writeFile("index.md", "# Home\n");
+    writeFile("guide.md", "# Guide\n");
+    writeFile("drafts.md", "---\nnoindex: true\n---\n\n# Drafts\n");
+    git("init", "-q");
+    git("add", "index.md");
+    git("commit", "-q", "-m", "Add home page");
+    const modified = new Date("2024-05-01T08:30:00Z");
+    fs.utimesSync(path.join(site.docsDir, "guide.md"), modified, modified);
+
+    await buildStaticSite({
+      dir: site.docsDir,
+      out: site.outDir,
+      concurrency: 1,
+    });
+
+    expect(read("sitemap.xml")).toBe(
+      [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+        "  <url>",
+        "    <loc>https://example.com/docs/</loc>",
+        "    <lastmod>2024-03-01T12:00:00.000Z</lastmod>",
+        "  </url>",
+        "  <url>",
+        "    <loc>https://example.com/docs/guide</loc>",
+        "    <lastmod>2024-05-01T08:30:00.000Z</lastmod>",
+        "  </url>",
+        "</urlset>",
+        "",
+      ].join("\n")
+    );
+    expect(read("robots.txt")).toBe(
+      "User-agent: *\nAllow: /\n\nSitemap: https://example.com/docs/sitemap.xml\n"
+    );
+
+    const guide = read("guide", "index.html");
+    expect(guide).toContain(
+      '<link rel="canonical" href="https://example.com/docs/guide" />'
+    );
+    expect(guide).not.toContain('name="robots"');
+    expect(read("drafts", "index.html")).toContain(
+      '<meta name="robots" content="noindex" />'
+    );
+    expect(read("404.html")).not.toContain('rel="canonical"');
+  });
+
+  it("should point untranslated pages at the original", async () => {
+    writeFile(
+      "markrealm.config.yaml",
+      [
+        "site:",
+        "  baseUrl: https://example.com",
+        "locales:",
+        "  - code: en",
+        "    default: true",
+        "  - code: de",
+        "",
+      ].join("\n")
+    );
+    writeFile("index.md", "# Home\n");
+    writeFile("guide.md", "# Guide\n");
+    writeFile("index.de.md", "# Start\n");
+    await buildStaticSite({
+      dir: site.docsDir,
+      out: site.outDir,
+      concurrency: 1,
+    });
+
+    expect(read("de", "index.html")).toContain(
+      '<link rel="canonical" href="https://example.com/de/" />'
+    );
+    expect(read("de", "guide", "index.html")).toContain(
+      '<link rel="canonical" href="https://example.com/guide" />'
+    );
+    expect(read("sitemap.xml")).not.toContain("/de/guide");
+  });
+
+  it("should skip the sitemap without an absolute site URL", async () => {
+    writeFile("index.md", "# Home\n");
+    await buildStaticSite({
+      dir: site.docsDir,
+      out: site.outDir,
+      concurrency: 1,
+    });
+
+    expect(fs.existsSync(path.join(site.outDir, "sitemap.xml"))).toBe(false);
+    expect(read("robots.txt")).toBe("User-agent: *\nAllow: /\n");
+    expect(read("index.html")).not.toContain('rel="canonical"');
+  });
+});
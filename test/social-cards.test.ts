@@ -0,0 +1,188 @@
+import { describe, it, expect, vi } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import { buildStaticSite } from "../src/build";
+import { MarkrealmServer } from "../src/server";
+import {
+  getSocialCardPage,
+  renderSocialCard,
+  wrapText,
+} from "../src/social-cards";
+import { useTempSite } from "./helpers";
+
+const PNG_SIGNATURE = "89504e470d0a1a0a";
+
+describe("Social Cards", () => {
+  // A card with nothing but `text` on it
+  const drawText = (text: string) =>
+    renderSocialCard(
+      '<svg xmlns="http://www.w3.org/2000/svg" width="64" height="32">' +
+        `<text x="4" y="24" font-size="20" font-family="Helvetica">${text}</text></svg>`
+    );
+
+  it("should render SVG to PNG", async () => {
+    const png = await renderSocialCard(
+      '<svg xmlns="http://www.w3.org/2000/svg" width="3" height="2">' +
+        '<path d="M0 0h3v2z" fill="#0969da" /></svg>'
+    );
+
+    expect(png.toString("hex", 0, 8)).toBe(PNG_SIGNATURE);
+    expect(png.subarray(12, 16).toString()).toBe("IHDR");
+    expect(png.readUInt32BE(16)).toBe(3);
+    expect(png.readUInt32BE(20)).toBe(2);
+
+    await expect(renderSocialCard("<svg")).rejects.toThrow();
+  });
+
+  it("should draw accented, Cyrillic, Chinese and Japanese text", async () => {
+    // Characters missing from the font all render as the same box
+    const box = await drawText("가");
+    expect(await drawText("각")).toEqual(box);
+
+    for (const text of ["Ü", "ß", "Ж", "は", "入"]) {
+      expect(await drawText(text)).not.toEqual(box);
+    }
+    expect(await drawText("Ü")).not.toEqual(await drawText("U"));
+  });
+
+  it("should wrap titles by their width", () => {
+    expect(wrapText("Configure the build pipeline", 12)).toEqual([
+      "Configure",
+      "the build",
+      "pipeline",
+    ]);
+    expect(wrapText("Configure the build pipeline", 12, 2)).toEqual([
+      "Configure",
+      "the build…",
+    ]);
+    expect(wrapText("Internationalization", 8)).toEqual([
+      "Internat",
+      "ionaliza",
+      "tion",
+    ]);
+    // Chinese and Japanese characters count twice, and break anywhere
+    expect(wrapText("はじめに入門ガイド", 8)).toEqual([
+      "はじめに",
+      "入門ガイ",
+      "ド",
+    ]);
+    expect(wrapText("はじめに入門ガイド", 8, 2)).toEqual([
+      "はじめに",
+      "入門ガ…",
+    ]);
+    expect(wrapText("API の使い方", 8)).toEqual(["API", "の使い方"]);
+    expect(getSocialCardPage("/og/index.png")).toBe("/");
+    expect(getSocialCardPage("/og/guide/setup.png")).toBe("/guide/setup");
+    expect(getSocialCardPage("/og/logo.svg")).toBeUndefined();
+  });
+
+  describe("in the build", () => {
+    const site = useTempSite("cards");
+    const { writeFile } = site;
+
+    const read = (...segments: string[]) =>
+      fs.readFileSync(path.join(site.outDir, ...segments));
+
+    const logged = () =>
+      vi
+        .mocked(console.log)
+        .mock.calls.map((args) => args.join(" "))
+        .filter((line) => line.includes("social cards"));
+
+    it("should render a card per page and reuse unchanged ones", async () => {
+      writeFile(
+        "markrealm.config.yaml",
+        "site:\n  baseUrl: https://example.com/docs/\n"
+      );
+      writeFile("index.md", "# Home\n");
+      writeFile("guide/setup.md", "# Setup\n");
+      await buildStaticSite({
+        dir: site.docsDir,
+        out: site.outDir,
+        concurrency: 1,
+      });
+
+      expect(read("og", "index.png").toString("hex", 0, 8)).toBe(PNG_SIGNATURE);
+      const card = read("og", "guide", "setup.png");
+      expect(card.toString("hex", 0, 8)).toBe(PNG_SIGNATURE);
+      expect(read("guide", "setup", "index.html").toString()).toContain(
+        '<meta property="og:image" content="https://example.com/docs/og/guide/setup.png" />'
+      );
+
+      // The dev server renders the same card on request
+      const server = new MarkrealmServer({ port: 0, docsDir: site.docsDir });
+      await server.load();
+      expect(await server.renderCard("/og/guide/setup.png")).toEqual(card);
+      expect(await server.renderCard("/og/missing.png")).toBeNull();
+
+      writeFile("guide/setup.md", "# Install\n");
+      await buildStaticSite({
+        dir: site.docsDir,
+        out: site.outDir,
+        concurrency: 1,
+      });
+      expect(logged()).toEqual([
+        "Generated 2 social cards, skipped 0 unchanged",
+        "Generated 1 social cards, skipped 1 unchanged",
+      ]);
+      expect(read("og", "guide", "setup.png")).not.toEqual(card);
+    });
+
+    it("should use the configured template", async () => {
+      writeFile(
+        "markrealm.config.yaml",
+        [
+          "site:",
+          "  baseUrl: https://example.com",
+          "socialCards:",
+          "  template: card.svg.ejs",
+          "",
+        ].join("\n")
+      );
+      writeFile(
+        "card.svg.ejs",
+        '<svg xmlns="http://www.w3.org/2000/svg" width="<%= pageTitle.length %>" height="1"></svg>\n'
+      );
+      writeFile("index.md", "# Home\n");
+      await buildStaticSite({
+        dir: site.docsDir,
+        out: site.outDir,
+        concurrency: 1,
+      });
+
+      expect(read("og", "index.png").readUInt32BE(16)).toBe(4);
+    });
+
+    it("should render cards for titles in other scripts", async () => {
+      writeFile(
+        "markrealm.config.yaml",
+        "site:\n  baseUrl: https://example.com\n  image: /logo.png\n"
+      );
+      writeFile("ja.md", "# はじめに\n");
+      writeFile("de.md", "# Übersicht\n");
+      await buildStaticSite({
+        dir: site.docsDir,
+        out: site.outDir,
+        concurrency: 1,
+      });
+
+      expect(read("og", "ja.png").toString("hex", 0, 8)).toBe(PNG_SIGNATURE);
+      expect(read("ja", "index.html").toString()).toContain(
+        '<meta property="og:image" content="https://example.com/og/ja.png" />'
+      );
+      expect(read("og", "de.png").toString("hex", 0, 8)).toBe(PNG_SIGNATURE);
+    });
+
+    it("should only render cards for an absolute site URL", async () => {
+      writeFile("index.md", "# Home\n");
+      await buildStaticSite({
+        dir: site.docsDir,
+        out: site.outDir,
+        concurrency: 1,
+      });
+
+      expect(fs.existsSync(path.join(site.outDir, "og"))).toBe(false);
+      expect(read("index.html").toString()).not.toContain("og:image");
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import { loadConfig } from "../src/config";
+import { buildStaticSite } from "../src/build";
+import { findTemplate, resolveTheme } from "../src/theme";
+import { useTempSite } from "./helpers";
+
+describe("Themes", () => {
+  const site = useTempSite("theme");
+  const { read } = site;
+
+  const writeFile = (name: string, content: string) => {
+    const file = path.join(site.workDir, name);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+  };
+
+  const writeThemedSite = () => {
+    writeFile("docs/markrealm.config.yaml", "theme: acme-theme\n");
+    writeFile("docs/index.md", "# Home\n");
+    writeFile("docs/wide.md", "---\nlayout: wide\n---\n\n# Wide\n");
+    writeFile("docs/theme/slots/footer.ejs", "<footer>Docs footer</footer>");
+    writeFile("docs/theme/public/extra.css", "body { color: red; }");
+    writeFile("node_modules/acme-theme/package.json", '{"name":"acme-theme"}');
+    writeFile(
+      "node_modules/acme-theme/slots/footer.ejs",
+      "<footer>Acme footer</footer>"
+    );
+    writeFile(
+      "node_modules/acme-theme/slots/header.ejs",
+      "<p>Acme <%= siteTitle %></p>"
+    );
+    writeFile(
+      "node_modules/acme-theme/layouts/wide.ejs",
+      '<main class="wide"><%- include("content") %></main>'
+    );
+    writeFile("node_modules/acme-theme/public/styles.css", "/* acme */");
+  };
+
+  it("should look up templates in the docs theme, the package, then the built-ins", () => {
+    writeThemedSite();
+    const { theme, diagnostics } = resolveTheme(
+      site.docsDir,
+      loadConfig(site.docsDir)
+    );
+
+    expect(diagnostics).toEqual([]);
+    expect(findTemplate(theme, "slots/footer")).toBe(
+      path.join(site.docsDir, "theme", "slots", "footer.ejs")
+    );
+    expect(findTemplate(theme, "slots/header")).toBe(
+      path.join(
+        site.workDir,
+        "node_modules",
+        "acme-theme",
+        "slots",
+        "header.ejs"
+      )
+    );
+    expect(findTemplate(theme, "toc.ejs")).toContain(
+      path.join("web", "template", "toc.ejs")
+    );
+    expect(findTemplate(theme, "layouts/missing")).toBeUndefined();
+  });
+
+  it("should report a theme package that is not installed", () => {
+    const config = { ...loadConfig(site.docsDir), theme: "missing-theme" };
+
+    const { theme, diagnostics } = resolveTheme(site.docsDir, config);
+    expect(theme.templateDirs).toHaveLength(1);
+    expect(diagnostics[0].message).toBe(
+      'Theme "missing-theme" is not installed'
+    );
+  });
+
+  it("should build pages with theme slots, layouts and assets", async () => {
+    writeThemedSite();
+    await buildStaticSite({
+      dir: site.docsDir,
+      out: site.outDir,
+      concurrency: 1,
+    });
+
+    const home = read("index.html");
+    expect(home).toContain("<footer>Docs footer</footer>");
+    expect(home).toContain("<p>Acme My Docs</p>");
+    expect(home).toContain('class="sidebar"');
+
+    const wide = read("wide", "index.html");
+    expect(wide).toContain('<main class="wide">');
+    expect(wide).not.toContain('class="sidebar"');
+
+    expect(read("extra.css")).toBe("body { color: red; }");
+    expect(read("styles.css")).toBe("/* acme */");
+    expect(read("search.js")).toContain("search");
+  });
+
+  it("should fail pages that ask for an unknown layout", async () => {
+    writeFile("docs/index.md", "---\nlayout: missing\n---\n\n# Home\n");
+
+    await expect(
+      buildStaticSite({ dir: site.docsDir, out: site.outDir, concurrency: 1 })
+    ).rejects.toThrow('Unknown layout "missing"');
+  });
+});
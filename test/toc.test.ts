@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { DocMeta } from "../src/content/types";
+import { buildTableOfContents } from "../src/content/toc";
+
+const makeDoc = (frontMatter: Record<string, any> = {}): DocMeta => ({
+  path: "/docs/guide.md",
+  route: "/guide",
+  title: "Guide",
+  headings: [
+    { level: 1, text: "Guide", id: "guide" },
+    { level: 2, text: "Install", id: "install" },
+    { level: 3, text: "From npm", id: "from-npm" },
+    { level: 4, text: "Troubleshooting", id: "troubleshooting" },
+    { level: 2, text: "Usage", id: "usage" },
+  ],
+  frontMatter,
+  links: [],
+  html: "",
+  diagnostics: [],
+});
+
+describe("Table of Contents", () => {
+  const config = { minLevel: 2, maxLevel: 3 };
+
+  it("should include headings within the configured levels", () => {
+    const toc = buildTableOfContents(makeDoc(), config);
+    expect(toc.map((heading) => heading.id)).toEqual([
+      "install",
+      "from-npm",
+      "usage",
+    ]);
+  });
+
+  it("should let front matter override the depth", () => {
+    const toc = buildTableOfContents(makeDoc({ toc_max_level: 2 }), config);
+    expect(toc.map((heading) => heading.id)).toEqual(["install", "usage"]);
+
+    const deep = buildTableOfContents(makeDoc({ toc_max_level: 4 }), config);
+    expect(deep).toHaveLength(4);
+  });
+
+  it("should be hidden with toc: false", () => {
+    expect(buildTableOfContents(makeDoc({ toc: false }), config)).toEqual([]);
+  });
+});
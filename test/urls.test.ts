@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import { loadConfig } from "../src/config";
+import { buildStaticSite } from "../src/build";
+import { MarkrealmServer } from "../src/server";
+import { applyBasePath, getBasePath } from "../src/urls";
+import { useTempSite } from "./helpers";
+
+describe("Base URL", () => {
+  const site = useTempSite("urls");
+  const { writeFile, read } = site;
+
+  it("should take the base path from a path or an absolute URL", () => {
+    const basePath = (baseUrl: string) => {
+      const config = loadConfig(site.docsDir);
+      return getBasePath({ ...config, site: { ...config.site, baseUrl } });
+    };
+
+    expect(basePath("/")).toBe("");
+    expect(basePath("")).toBe("");
+    expect(basePath("/docs/")).toBe("/docs");
+    expect(basePath("docs")).toBe("/docs");
+    expect(basePath("https://example.com/docs/")).toBe("/docs");
+    expect(basePath("https://example.com")).toBe("");
+  });
+
+  it("should prefix root-relative URLs only", () => {
+    expect(
+      applyBasePath(
+        '<a href="/guide">a</a><img src="/logo.png"><a href="//cdn/x">b</a>' +
+          '<a href="#top">c</a><a href="https://example.com/">d</a>' +
+          '<div data-index="/search-index.json"></div>',
+        "/docs"
+      )
+    ).toBe(
+      '<a href="/docs/guide">a</a><img src="/docs/logo.png"><a href="//cdn/x">b</a>' +
+        '<a href="#top">c</a><a href="https://example.com/">d</a>' +
+        '<div data-index="/docs/search-index.json"></div>'
+    );
+  });
+
+  it("should prefix every generated URL in the build", async () => {
+    writeFile(
+      "markrealm.config.yaml",
+      [
+        "site:",
+        "  baseUrl: https://example.com/docs/",
+        "versions:",
+        "  - name: v1",
+        "    dir: .",
+        "",
+      ].join("\n")
+    );
+    writeFile("index.md", "# Home\n\nRead the [guide](/guide).\n");
+    writeFile("guide.md", "# Guide\n\nDetails.\n");
+    await buildStaticSite({
+      dir: site.docsDir,
+      out: site.outDir,
+      concurrency: 1,
+    });
+
+    const guide = read("v1", "guide", "index.html");
+    expect(guide).toContain('href="/docs/styles.css"');
+    expect(guide).toContain('src="/docs/search.js"');
+    expect(guide).toContain('data-index="/docs/v1/search-index.json"');
+    expect(guide).toContain('<a href="/docs/v1/guide" class="sidebar-link">');
+    expect(read("v1", "index.html")).toContain(
+      '<a href="/docs/v1/guide">guide</a>'
+    );
+
+    expect(read("index.html")).toContain('content="0; url=/docs/v1/"');
+    expect(read("404.html")).toContain('<a href="/docs/">');
+    expect(JSON.parse(read("v1", "search-index.json"))[0].url).toBe(
+      "/docs/v1/"
+    );
+  });
+
+  it("should serve the same pages under the base path in dev", async () => {
+    writeFile("markrealm.config.yaml", "site:\n  baseUrl: /docs/\n");
+    writeFile("index.md", "# Home\n\nRead the [guide](/guide).\n");
+    writeFile("guide.md", "# Guide\n");
+    await buildStaticSite({
+      dir: site.docsDir,
+      out: site.outDir,
+      concurrency: 1,
+    });
+
+    const server = new MarkrealmServer({ port: 0, docsDir: site.docsDir });
+    await server.load();
+    const { html } = await server.renderRoute("/");
+    expect(
+      html.replace(
+        '\n    <script src="/docs/reload-client.js"></script>\n    ',
+        ""
+      )
+    ).toBe(read("index.html"));
+  });
+});
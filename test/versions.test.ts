@@ -0,0 +1,181 @@
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import { execFileSync } from "child_process";
+import { loadConfig } from "../src/config";
+import {
+  buildStaticSite,
+  checkSectionLinks,
+  loadSiteSections,
+} from "../src/build";
+import { MarkrealmServer } from "../src/server";
+import { prefixLinks, resolveVersions } from "../src/versions";
+import { useTempSite } from "./helpers";
+
+describe("Versions", () => {
+  const site = useTempSite("versions");
+  const { writeFile, read } = site;
+
+  const writeVersionedSite = () => {
+    writeFile(
+      "markrealm.config.yaml",
+      [
+        "versions:",
+        "  - name: v2",
+        "    label: 2.x",
+        "    dir: v2",
+        "  - name: v1",
+        "    dir: v1",
+        "",
+      ].join("\n")
+    );
+    writeFile("v2/index.md", "# Home\n\nRead the [guide](/guide).\n");
+    writeFile("v2/guide.md", "# Guide\n");
+    writeFile("v2/new.md", "# New\n");
+    writeFile("v1/index.md", "# Home\n\nWelcome.\n");
+    writeFile("v1/guide.md", "# Guide\n");
+  };
+
+  it("should report invalid version entries", () => {
+    writeFile("v1/index.md", "# Home\n");
+    const config = loadConfig(site.docsDir);
+    config.versions = [
+      { name: "latest", dir: "v1" },
+      { name: "v1", dir: "v1", ref: "main" },
+      { name: "v2", dir: "missing" },
+      { name: "v3", dir: "v1" },
+      { name: "v4", dir: "." },
+    ];
+
+    const { versions, diagnostics } = resolveVersions(config, site.docsDir);
+    expect(versions.map((version) => version.name)).toEqual(["v3"]);
+    expect(versions[0].latest).toBe(true);
+    expect(diagnostics.map((diagnostic) => diagnostic.message)).toEqual([
+      'Version "latest": "latest" is reserved for the latest version alias',
+      'Version "v1": set exactly one of `dir` or `ref`',
+      'Version "v2": folder missing does not exist',
+      'Version "v4": folder overlaps the folder of version "v3"',
+    ]);
+  });
+
+  it("should only rewrite root-relative links", () => {
+    expect(
+      prefixLinks(
+        '<a href="/guide">a</a><a href="#x">b</a><a href="//cdn">c</a>',
+        "/v1"
+      )
+    ).toBe('<a href="/v1/guide">a</a><a href="#x">b</a><a href="//cdn">c</a>');
+  });
+
+  it("should check links within each version", async () => {
+    writeVersionedSite();
+    writeFile("v1/index.md", "# Home\n\n[New](/new)\n");
+
+    const config = loadConfig(site.docsDir);
+    const { sections } = await loadSiteSections(site.docsDir, config, {
+      ignore: [],
+    });
+    const result = await checkSectionLinks(sections);
+
+    expect(result.valid.map((link) => link.href)).toEqual(["/guide"]);
+    expect(result.broken.map((link) => link.href)).toEqual(["/new"]);
+  });
+
+  it("should build every version under its own prefix", async () => {
+    writeVersionedSite();
+    await buildStaticSite({
+      dir: site.docsDir,
+      out: site.outDir,
+      concurrency: 1,
+    });
+
+    const guide = read("v2", "guide", "index.html");
+    expect(guide).toContain('<a href="/v2/guide" aria-current="page">2.x</a>');
+    expect(guide).toContain('<a href="/v1/guide">v1</a>');
+    expect(guide).toContain('data-index="/v2/search-index.json"');
+
+    // Pages missing from a version link to its home page
+    expect(read("v2", "new", "index.html")).toContain('<a href="/v1/">v1</a>');
+    expect(read("v2", "index.html")).toContain('<a href="/v2/guide">guide</a>');
+
+    expect(read("index.html")).toContain('content="0; url=/v2/"');
+    expect(read("latest", "new", "index.html")).toContain(
+      'content="0; url=/v2/new"'
+    );
+    expect(JSON.parse(read("v1", "search-index.json"))[0].url).toBe("/v1/");
+  });
+
+  it("should serve every version under its own prefix in the dev server", async () => {
+    writeVersionedSite();
+    await buildStaticSite({
+      dir: site.docsDir,
+      out: site.outDir,
+      concurrency: 1,
+    });
+    const server = new MarkrealmServer({ port: 0, docsDir: site.docsDir });
+    await server.load();
+
+    const { status, html } = await server.renderRoute("/v1/guide");
+    expect(status).toBe(200);
+    expect(
+      html.replace('\n    <script src="/reload-client.js"></script>\n    ', "")
+    ).toBe(read("v1", "guide", "index.html"));
+    expect((await server.renderRoute("/guide")).status).toBe(404);
+    expect(server.getRedirect("/")).toBe("/v2/");
+    expect(server.getRedirect("/latest/new")).toBe("/v2/new");
+  });
+
+  it("should remove the output of a dropped version", async () => {
+    writeVersionedSite();
+    await buildStaticSite({
+      dir: site.docsDir,
+      out: site.outDir,
+      concurrency: 1,
+    });
+    expect(
+      fs.existsSync(path.join(site.outDir, "v1", "search-index.json"))
+    ).toBe(true);
+
+    writeFile(
+      "markrealm.config.yaml",
+      "versions:\n  - name: v2\n    dir: v2\n"
+    );
+    await buildStaticSite({
+      dir: site.docsDir,
+      out: site.outDir,
+      concurrency: 1,
+    });
+    expect(fs.existsSync(path.join(site.outDir, "v1"))).toBe(false);
+    expect(
+      fs.existsSync(path.join(site.outDir, "v2", "search-index.json"))
+    ).toBe(true);
+  });
+
+  it("should snapshot versions from git refs", async () => {
+    const git = (...args: string[]) =>
+      execFileSync("git", args, { cwd: site.workDir, stdio: "ignore" });
+    git("init", "-q");
+    git("config", "user.email", "docs@example.com");
+    git("config", "user.name", "Docs");
+    writeFile("index.md", "# Old home\n");
+    git("add", "-A");
+    git("commit", "-q", "-m", "v1");
+    git("tag", "v1.0");
+    writeFile("index.md", "# New home\n");
+
+    const config = loadConfig(site.docsDir);
+    config.versions = [
+      { name: "v2", dir: "." },
+      { name: "v1", ref: "v1.0" },
+      { name: "v0", ref: "no-such-ref" },
+    ];
+    const { versions, diagnostics } = resolveVersions(config, site.docsDir);
+
+    expect(versions.map((version) => version.name)).toEqual(["v2", "v1"]);
+    expect(
+      fs.readFileSync(path.join(versions[1].dir, "index.md"), "utf8")
+    ).toBe("# Old home\n");
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].message).toContain("cannot snapshot no-such-ref");
+  });
+});